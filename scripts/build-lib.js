@@ -0,0 +1,13 @@
+// Runs webpack.lib.config.js through webpack's API, since the CRA toolchain
+// ships webpack without its CLI.
+const webpack = require("webpack");
+const config = require("../webpack.lib.config");
+
+webpack(config, (error, stats) => {
+  if (error) {
+    console.error(error);
+    process.exit(1);
+  }
+  console.log(stats.toString({ colors: true, modules: false }));
+  if (stats.hasErrors()) process.exit(1);
+});
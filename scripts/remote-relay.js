@@ -0,0 +1,31 @@
+// Local WebSocket relay for ShaderLand's remote control: every message a
+// client sends is passed on to all the other clients, so a controller and any
+// number of scenes can talk through it. For testing on a trusted network; it
+// has no authentication.
+//
+//   npm run remote-relay                 # ws://localhost:8787
+//   PORT=9000 npm run remote-relay
+const WebSocket = require("ws");
+
+const port = Number(process.env.PORT) || 8787;
+const server = new WebSocket.Server({ port });
+
+server.on("connection", (socket, request) => {
+  const client = request.socket.remoteAddress;
+  console.log(`${client} connected (${server.clients.size} clients)`);
+
+  socket.on("message", (data, isBinary) => {
+    for (const other of server.clients) {
+      if (other !== socket && other.readyState === WebSocket.OPEN) {
+        other.send(data, { binary: isBinary });
+      }
+    }
+  });
+  socket.on("close", () => {
+    console.log(`${client} disconnected (${server.clients.size} clients)`);
+  });
+});
+
+server.on("listening", () => {
+  console.log(`ShaderLand relay listening on ws://localhost:${port}`);
+});
@@ -1,7 +1,7 @@
 import React from "react";
-import { ShaderLand } from "./ShaderLand/ShaderLand";
+import { Site } from "./site/Site";
 function App() {
-  return <ShaderLand />;
+  return <Site />;
 }
 
 export default App;
@@ -0,0 +1,112 @@
+import { ChangeEvent, useState } from "react";
+import { downloadBlob } from "./download";
+import { exportAnimation, ExportFormat, ExportOptions } from "./frameExport";
+import { ShaderScene } from "./scene";
+
+interface ExportMenuProps {
+  sceneId: string;
+  scene: ShaderScene;
+}
+
+const defaultOptions: ExportOptions = {
+  format: "png",
+  width: 1920,
+  height: 1080,
+  fps: 30,
+  duration: 5,
+  seamlessLoop: true,
+};
+
+export function ExportMenu({ sceneId, scene }: ExportMenuProps) {
+  const [options, setOptions] = useState(defaultOptions);
+  const [status, setStatus] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const handleNumber =
+    (key: "width" | "height" | "fps" | "duration") =>
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const value = Number(event.target.value);
+      if (value > 0) setOptions({ ...options, [key]: value });
+    };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const blob = await exportAnimation(scene, options, (rendered, total) =>
+        setStatus(`Rendering ${rendered}/${total}`),
+      );
+      const extension = options.format === "png" ? "zip" : "webm";
+      downloadBlob(
+        blob,
+        `${sceneId}-${options.width}x${options.height}.${extension}`,
+      );
+      setStatus("Export finished");
+    } catch (error) {
+      setStatus(`Export failed: ${(error as Error).message}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="shaderland-export">
+      <select
+        value={options.format}
+        disabled={exporting}
+        onChange={(event) =>
+          setOptions({ ...options, format: event.target.value as ExportFormat })
+        }
+      >
+        <option value="png">PNG sequence (zip)</option>
+        <option value="webm">WebM video</option>
+      </select>
+      <input
+        type="number"
+        title="Width"
+        value={options.width}
+        disabled={exporting}
+        onChange={handleNumber("width")}
+      />
+      ×
+      <input
+        type="number"
+        title="Height"
+        value={options.height}
+        disabled={exporting}
+        onChange={handleNumber("height")}
+      />
+      <input
+        type="number"
+        title="Frames per second"
+        value={options.fps}
+        disabled={exporting}
+        onChange={handleNumber("fps")}
+      />
+      fps
+      <input
+        type="number"
+        title="Duration in seconds"
+        value={options.duration}
+        step={0.5}
+        disabled={exporting}
+        onChange={handleNumber("duration")}
+      />
+      s
+      <label>
+        <input
+          type="checkbox"
+          checked={options.seamlessLoop}
+          disabled={exporting}
+          onChange={(event) =>
+            setOptions({ ...options, seamlessLoop: event.target.checked })
+          }
+        />
+        Loop
+      </label>
+      <button onClick={handleExport} disabled={exporting}>
+        Export
+      </button>
+      {status && <div className="shaderland-message">{status}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { ChangeEvent, useEffect, useRef, useState } from "react";
+import {
+  applyPreset,
+  deletePreset,
+  exportPreset,
+  importPreset,
+  loadSavedPresets,
+  Preset,
+  PresetFile,
+  presetFromHash,
+  presetHash,
+  savePreset,
+} from "./presets";
+import { sceneUrl } from "./registry";
+import { ShaderScene } from "./scene";
+
+interface PresetMenuProps {
+  sceneId: string;
+  scene: ShaderScene;
+  presets: Preset[];
+  /** How long choosing a preset blends into it */
+  blendSeconds?: number;
+}
+
+const builtInPrefix = "builtin:";
+const savedPrefix = "saved:";
+
+export function PresetMenu({
+  sceneId,
+  scene,
+  presets,
+  blendSeconds = 0,
+}: PresetMenuProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [saved, setSaved] = useState<PresetFile[]>([]);
+  const [selected, setSelected] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSaved(loadSavedPresets(sceneId, scene.getParamSchema()));
+    setSelected("");
+    setMessage(null);
+  }, [sceneId, scene]);
+
+  // Apply a preset shared through a `#preset=` link
+  useEffect(() => {
+    const applyHashPreset = () => {
+      try {
+        const preset = presetFromHash(
+          window.location.hash,
+          sceneId,
+          scene.getParamSchema(),
+        );
+        if (!preset) return;
+        applyPreset(scene, preset);
+        setMessage(`Loaded "${preset.name}" from link`);
+      } catch (error) {
+        setMessage((error as Error).message);
+      }
+    };
+
+    applyHashPreset();
+    window.addEventListener("hashchange", applyHashPreset);
+    return () => {
+      window.removeEventListener("hashchange", applyHashPreset);
+    };
+  }, [sceneId, scene]);
+
+  const findPreset = (value: string): Preset | undefined => {
+    if (value.startsWith(builtInPrefix)) {
+      return presets[Number(value.slice(builtInPrefix.length))];
+    }
+    return saved.find((preset) => savedPrefix + preset.name === value);
+  };
+
+  const currentPreset = (): Preset => ({
+    name: findPreset(selected)?.name ?? "Untitled",
+    params: scene.getParams(),
+    audioRoutes: scene.getAudioRoutes(),
+  });
+
+  const handleSelect = (event: ChangeEvent<HTMLSelectElement>) => {
+    const preset = findPreset(event.target.value);
+    if (preset) applyPreset(scene, preset, blendSeconds);
+    setSelected(event.target.value);
+    setMessage(null);
+  };
+
+  const handleSave = () => {
+    const name = window.prompt("Preset name", currentPreset().name);
+    if (!name) return;
+
+    setSaved(
+      savePreset(
+        sceneId,
+        {
+          name,
+          params: scene.getParams(),
+          audioRoutes: scene.getAudioRoutes(),
+        },
+        scene.getParamSchema(),
+      ),
+    );
+    setSelected(savedPrefix + name);
+    setMessage(`Saved "${name}"`);
+  };
+
+  const handleDelete = () => {
+    if (!selected.startsWith(savedPrefix)) return;
+
+    const name = selected.slice(savedPrefix.length);
+    setSaved(deletePreset(sceneId, name, scene.getParamSchema()));
+    setSelected("");
+    setMessage(`Deleted "${name}"`);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const preset = await importPreset(file, sceneId, scene.getParamSchema());
+      applyPreset(scene, preset);
+      setSaved(savePreset(sceneId, preset, scene.getParamSchema()));
+      setSelected(savedPrefix + preset.name);
+      setMessage(`Imported "${preset.name}"`);
+    } catch (error) {
+      setMessage((error as Error).message);
+    }
+  };
+
+  const handleShare = async () => {
+    // Name the scene in the query, since the preset takes the hash that a
+    // `#/scenes/` URL names it in
+    window.history.replaceState(
+      null,
+      "",
+      sceneUrl(window.location, sceneId) + presetHash(sceneId, currentPreset()),
+    );
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setMessage("Link copied to clipboard");
+    } catch {
+      setMessage("Link is in the address bar");
+    }
+  };
+
+  return (
+    <div className="shaderland-presets">
+      <select value={selected} onChange={handleSelect}>
+        <option value="" disabled>
+          Presets
+        </option>
+        <optgroup label="Built-in">
+          {presets.map((preset, index) => (
+            <option key={preset.name} value={builtInPrefix + index}>
+              {preset.name}
+            </option>
+          ))}
+        </optgroup>
+        {saved.length > 0 && (
+          <optgroup label="Saved">
+            {saved.map((preset) => (
+              <option key={preset.name} value={savedPrefix + preset.name}>
+                {preset.name}
+              </option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+      <button onClick={handleSave}>Save</button>
+      <button
+        onClick={handleDelete}
+        disabled={!selected.startsWith(savedPrefix)}
+      >
+        Delete
+      </button>
+      <button onClick={() => exportPreset(sceneId, currentPreset())}>
+        Export
+      </button>
+      <button onClick={() => fileInputRef.current?.click()}>Import</button>
+      <button onClick={handleShare}>Share</button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        hidden
+        onChange={handleImport}
+      />
+      {message && <div className="shaderland-message">{message}</div>}
+    </div>
+  );
+}
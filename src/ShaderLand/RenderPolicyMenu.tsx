@@ -0,0 +1,47 @@
+import { MotionPreference, RenderPolicy } from "./renderPolicy";
+
+interface RenderPolicyMenuProps {
+  policy: RenderPolicy;
+  onChange: (policy: RenderPolicy) => void;
+}
+
+export function RenderPolicyMenu({ policy, onChange }: RenderPolicyMenuProps) {
+  return (
+    <div className="shaderland-policy">
+      <select
+        value={policy.motion}
+        onChange={(event) =>
+          onChange({
+            ...policy,
+            motion: event.target.value as MotionPreference,
+          })
+        }
+      >
+        <option value="system">Motion: system</option>
+        <option value="full">Motion: full</option>
+        <option value="slowed">Motion: slowed</option>
+        <option value="still">Motion: still</option>
+      </select>
+      <label>
+        <input
+          type="checkbox"
+          checked={policy.pauseWhenHidden}
+          onChange={(event) =>
+            onChange({ ...policy, pauseWhenHidden: event.target.checked })
+          }
+        />
+        Pause when hidden
+      </label>
+      <label>
+        <input
+          type="checkbox"
+          checked={policy.lowPower}
+          onChange={(event) =>
+            onChange({ ...policy, lowPower: event.target.checked })
+          }
+        />
+        Low power
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { Component, ErrorInfo, ReactNode } from "react";
+import { ShaderLandFallback } from "./ShaderLandFallback";
+
+interface SceneErrorBoundaryProps {
+  children: ReactNode;
+}
+
+interface SceneErrorBoundaryState {
+  error: Error | null;
+}
+
+/**
+ * Shows the fallback instead of a blank page when a scene can't be built,
+ * typically because `THREE.WebGLRenderer` couldn't create a context.
+ */
+export class SceneErrorBoundary extends Component<
+  SceneErrorBoundaryProps,
+  SceneErrorBoundaryState
+> {
+  public state: SceneErrorBoundaryState = { error: null };
+
+  public static getDerivedStateFromError(
+    error: Error,
+  ): SceneErrorBoundaryState {
+    return { error };
+  }
+
+  public componentDidCatch(error: Error, info: ErrorInfo): void {
+    console.error("ShaderLand failed to start:", error, info.componentStack);
+  }
+
+  public render() {
+    if (this.state.error) {
+      return (
+        <ShaderLandFallback
+          reason={`Couldn't start the 3D scene: ${this.state.error.message}`}
+        />
+      );
+    }
+    return this.props.children;
+  }
+}
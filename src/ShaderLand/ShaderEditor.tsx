@@ -0,0 +1,104 @@
+import { UIEvent, useEffect, useRef, useState } from "react";
+import { ShaderScene } from "./scene";
+import { ShaderError, ShaderSource } from "./shaderCompiler";
+
+interface ShaderEditorProps {
+  scene: ShaderScene;
+}
+
+type Stage = keyof ShaderSource;
+
+/** Delay after the last keystroke before recompiling */
+const compileDelayMs = 400;
+
+export function ShaderEditor({ scene }: ShaderEditorProps) {
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const [source, setSource] = useState(() => scene.getShaderSource());
+  const [stage, setStage] = useState<Stage>("fragmentShader");
+  const [errors, setErrors] = useState<ShaderError[]>([]);
+  const [edited, setEdited] = useState(false);
+
+  useEffect(() => {
+    setSource(scene.getShaderSource());
+    setErrors([]);
+    setEdited(false);
+  }, [scene]);
+
+  useEffect(() => {
+    if (!edited) return;
+
+    const timeout = setTimeout(() => {
+      setErrors(scene.setShaderSource(source));
+    }, compileDelayMs);
+    return () => clearTimeout(timeout);
+  }, [scene, source, edited]);
+
+  const errorStage = stage === "vertexShader" ? "vertex" : "fragment";
+  const errorLines = new Set(
+    errors.filter((error) => error.stage === errorStage).map((e) => e.line),
+  );
+  const lineCount = source[stage].split("\n").length;
+
+  const handleScroll = (event: UIEvent<HTMLTextAreaElement>) => {
+    if (gutterRef.current) {
+      gutterRef.current.scrollTop = event.currentTarget.scrollTop;
+    }
+  };
+
+  return (
+    <div className="shaderland-editor">
+      <div className="shaderland-editor-tabs">
+        <button
+          className={stage === "vertexShader" ? "active" : undefined}
+          onClick={() => setStage("vertexShader")}
+        >
+          Vertex
+        </button>
+        <button
+          className={stage === "fragmentShader" ? "active" : undefined}
+          onClick={() => setStage("fragmentShader")}
+        >
+          Fragment
+        </button>
+        <span className="shaderland-editor-status">
+          {errors.length > 0
+            ? "Errors — showing last good program"
+            : edited
+              ? "Compiled"
+              : ""}
+        </span>
+      </div>
+      <div className="shaderland-editor-body">
+        <div ref={gutterRef} className="shaderland-editor-gutter">
+          {Array.from({ length: lineCount }, (_, index) => (
+            <div
+              key={index}
+              className={errorLines.has(index + 1) ? "error" : undefined}
+            >
+              {index + 1}
+            </div>
+          ))}
+        </div>
+        <textarea
+          value={source[stage]}
+          spellCheck={false}
+          onScroll={handleScroll}
+          onChange={(event) => {
+            setSource({ ...source, [stage]: event.target.value });
+            setEdited(true);
+          }}
+        />
+      </div>
+      {errors.length > 0 && (
+        <ul className="shaderland-editor-errors">
+          {errors.map((error, index) => (
+            <li key={index}>
+              {error.stage}
+              {error.line !== null && `:${error.line}`} {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,25 +1,337 @@
-import { useEffect, useRef } from "react";
-import { Scene } from "./scene";
+import { ChangeEvent, DragEvent, useEffect, useRef, useState } from "react";
+import WebGL from "three/examples/jsm/capabilities/WebGL";
+import {
+  getSceneDefinition,
+  sceneDefinitions,
+  sceneIdFromLocation,
+  sceneUrl,
+} from "./registry";
+import { ExportMenu } from "./ExportMenu";
+import { PresetMenu } from "./PresetMenu";
+import { RenderPolicyMenu } from "./RenderPolicyMenu";
+import {
+  loadRenderPolicy,
+  RenderPolicy,
+  saveRenderPolicy,
+} from "./renderPolicy";
+import { applyPreset, Preset } from "./presets";
+import { RemoteOptions } from "./remote";
+import { CameraView, ParamValues, ShaderScene } from "./scene";
+import { SharedRenderer } from "./sharedRenderer";
+import { SceneErrorBoundary } from "./SceneErrorBoundary";
+import { ShaderEditor } from "./ShaderEditor";
+import { ShaderLandFallback } from "./ShaderLandFallback";
+import { StatsOverlay } from "./StatsOverlay";
+import { TimelinePanel } from "./TimelinePanel";
+import { defaultTransition, Transition, transitionKinds } from "./transition";
+import { useRemoteControl } from "./useRemoteControl";
+import { useRenderPolicy } from "./useRenderPolicy";
+import "./ShaderLand.css";
 
-export function ShaderLand() {
+export interface ShaderLandProps {
+  /** CSS width; fills the parent when omitted */
+  width?: number | string;
+  /** CSS height; fills the parent when omitted */
+  height?: number | string;
+  /** Scene to show. Omit to follow the URL and offer the scene picker. */
+  sceneId?: string;
+  /** Name of one of the scene's built-in presets to start from */
+  preset?: string;
+  /** Param values applied over the scene's defaults or `preset` */
+  params?: ParamValues;
+  /** Camera placement; the camera flies to each new one */
+  camera?: CameraView;
+  /** Hold the current frame instead of animating */
+  paused?: boolean;
+  /** Called with every param whenever one is edited in the GUI */
+  onParamsChange?: (params: ParamValues) => void;
+  /** Show the dat.GUI panel. Defaults to true. */
+  gui?: boolean;
+  /** Show the menu of scenes, presets and exports. Defaults to true. */
+  menu?: boolean;
+  /**
+   * Show the visitor's motion and power settings, which are part of the
+   * menu, on their own when the menu is hidden. Defaults to false.
+   */
+  policyMenu?: boolean;
+  /** Draw through a context shared with other instances on the page */
+  sharedRenderer?: SharedRenderer;
+  /**
+   * How changes of scene, preset and camera come in. Defaults to a one
+   * second dissolve; scenes sharing a renderer always cut between scenes.
+   */
+  transition?: Transition;
+  /**
+   * Take commands from other windows, frames or a WebSocket relay. See
+   * `remote.ts` for the protocol.
+   */
+  remote?: RemoteOptions;
+}
+
+type ShaderLandViewProps = Omit<ShaderLandProps, "width" | "height">;
+
+const noPresets: Preset[] = [];
+
+/**
+ * A ShaderLand scene with its menus, sized to `width` and `height` or to its
+ * parent. Any number can be placed on a page, each with its own scene.
+ */
+export function ShaderLand({ width, height, ...viewProps }: ShaderLandProps) {
+  const [webGLAvailable] = useState(() => WebGL.isWebGL2Available());
+  const { sceneId } = viewProps;
+
+  let fallbackReason: string | null = null;
+  if (!webGLAvailable) {
+    fallbackReason =
+      "This browser or device doesn't support WebGL 2, so the 3D scenes can't be shown.";
+  } else if (sceneId !== undefined && !getSceneDefinition(sceneId)) {
+    const known = sceneDefinitions.map((definition) => definition.id);
+    fallbackReason = `There's no scene "${sceneId}". Try one of: ${known.join(", ")}.`;
+  }
+
+  return (
+    <div className="shaderland" style={{ width, height }}>
+      {fallbackReason ? (
+        <ShaderLandFallback reason={fallbackReason} />
+      ) : (
+        <SceneErrorBoundary>
+          <ShaderLandView {...viewProps} />
+        </SceneErrorBoundary>
+      )}
+    </div>
+  );
+}
+
+function ShaderLandView({
+  sceneId: fixedSceneId,
+  preset,
+  params,
+  camera,
+  paused = false,
+  gui = true,
+  menu = true,
+  policyMenu = false,
+  sharedRenderer,
+  transition: initialTransition = defaultTransition,
+  remote,
+  onParamsChange,
+}: ShaderLandViewProps) {
   const canvasRef = useRef<HTMLDivElement>(null);
-  const sceneRef = useRef<Scene | null>(null);
-  const mounted = useRef(false);
+  const guiRef = useRef<HTMLDivElement>(null);
+  /** A scene just replaced, kept until the next one has transitioned in */
+  const retiringRef = useRef<{ sceneId: string; scene: ShaderScene } | null>(
+    null,
+  );
+  const [transition, setTransition] = useState(initialTransition);
+  const transitionRef = useRef(transition);
+  transitionRef.current = transition;
+  const [scene, setScene] = useState<ShaderScene | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [policy, setPolicy] = useState(loadRenderPolicy);
+  const [message, setMessage] = useState<string | null>(null);
+  const [locationSceneId, setSceneId] = useState(() =>
+    sceneIdFromLocation(window.location),
+  );
+  const sceneId = fixedSceneId ?? locationSceneId;
 
   useEffect(() => {
-    if (!canvasRef.current) return;
+    if (fixedSceneId) return;
+
+    const handleLocationChange = () => {
+      setSceneId(sceneIdFromLocation(window.location));
+    };
 
-    if (!mounted.current) {
-      sceneRef.current = new Scene(canvasRef.current);
-      mounted.current = true;
+    window.addEventListener("popstate", handleLocationChange);
+    window.addEventListener("hashchange", handleLocationChange);
+    return () => {
+      window.removeEventListener("popstate", handleLocationChange);
+      window.removeEventListener("hashchange", handleLocationChange);
+    };
+  }, [fixedSceneId]);
+
+  useEffect(() => {
+    const definition = getSceneDefinition(sceneId);
+    if (!canvasRef.current || !definition) return;
+
+    // Started by useRenderPolicy once it's known whether it should run
+    const scene = definition.create(canvasRef.current, {
+      guiContainer: gui ? guiRef.current : null,
+      sharedRenderer,
+    });
+    setScene(scene);
+
+    // Only a change of scene transitions, not remounts or option changes
+    const retiring = retiringRef.current;
+    retiringRef.current = null;
+    if (retiring && retiring.sceneId !== sceneId && !sharedRenderer) {
+      retiring.scene.setGuiVisible(false);
+      scene
+        .transitionFrom(retiring.scene, transitionRef.current)
+        .then(() => retiring.scene.dispose());
+    } else {
+      retiring?.scene.dispose();
     }
 
     return () => {
-      if (sceneRef.current) {
-        // sceneRef.current.dispose();
-      }
+      setScene(null);
+      // The next scene, if there is one, claims this one straight after
+      retiringRef.current = { sceneId, scene };
+      queueMicrotask(() => {
+        if (retiringRef.current?.scene !== scene) return;
+        retiringRef.current = null;
+        scene.dispose();
+      });
     };
-  }, []);
+  }, [sceneId, gui, sharedRenderer]);
+
+  // Compared by value, so inline objects don't reapply on every render
+  const paramsKey = JSON.stringify(params ?? {});
+  const cameraKey = camera ? JSON.stringify(camera) : null;
+  /** The scene props were last applied to, which later changes blend in */
+  const appliedSceneRef = useRef<ShaderScene | null>(null);
+
+  useEffect(() => {
+    if (!scene) return;
+
+    const seconds =
+      appliedSceneRef.current === scene
+        ? blendSeconds(transitionRef.current)
+        : 0;
+    appliedSceneRef.current = scene;
+    const named = getSceneDefinition(sceneId)?.presets.find(
+      (candidate) => candidate.name === preset,
+    );
+    if (named) applyPreset(scene, named, seconds);
+    scene.setParams(JSON.parse(paramsKey));
+  }, [scene, sceneId, preset, paramsKey]);
+
+  useEffect(() => {
+    if (!scene || !cameraKey) return;
+    // A new scene isn't running yet, so it starts out there
+    scene.moveCamera(
+      JSON.parse(cameraKey),
+      blendSeconds(transitionRef.current),
+    );
+  }, [scene, cameraKey]);
+
+  useEffect(() => {
+    if (!scene || !onParamsChange) return;
+    return scene.onParamsEdited(onParamsChange);
+  }, [scene, onParamsChange]);
+
+  useEffect(() => {
+    if (!scene) return;
+    return scene.onMessage(setMessage);
+  }, [scene]);
+
+  useRenderPolicy(scene, canvasRef, policy, paused);
+
+  const definition = getSceneDefinition(sceneId);
+  useRemoteControl(remote, scene, sceneId, definition?.presets ?? noPresets);
+
+  const handleSceneChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    const id = event.target.value;
+    window.history.pushState(null, "", sceneUrl(window.location, id));
+    setSceneId(id);
+  };
+
+  const handlePolicyChange = (next: RenderPolicy) => {
+    saveRenderPolicy(next);
+    setPolicy(next);
+  };
+
+  const handleDrop = async (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    if (!scene) return;
+
+    for (const file of Array.from(event.dataTransfer.files)) {
+      try {
+        await scene.addModel(file);
+        setMessage(`Added "${file.name}"`);
+      } catch (error) {
+        setMessage((error as Error).message);
+      }
+    }
+  };
+
+  return (
+    <>
+      <div
+        ref={canvasRef}
+        className="shaderland-canvas"
+        onDragOver={(event) => event.preventDefault()}
+        onDrop={handleDrop}
+      ></div>
+      {gui && <div ref={guiRef} className="shaderland-gui" />}
+      {menu && (
+        <div className="shaderland-menu">
+          {!fixedSceneId && (
+            <select value={sceneId} onChange={handleSceneChange}>
+              {sceneDefinitions.map((definition) => (
+                <option key={definition.id} value={definition.id}>
+                  {definition.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <button onClick={() => setShowEditor(!showEditor)}>
+            {showEditor ? "Close Shader" : "Edit Shader"}
+          </button>
+          <button onClick={() => setShowStats(!showStats)}>
+            {showStats ? "Hide Stats" : "Stats"}
+          </button>
+          <button onClick={() => setShowTimeline(!showTimeline)}>
+            {showTimeline ? "Close Timeline" : "Timeline"}
+          </button>
+          {scene && definition && (
+            <PresetMenu
+              sceneId={sceneId}
+              scene={scene}
+              presets={definition.presets}
+              blendSeconds={blendSeconds(transition)}
+            />
+          )}
+          {/* A shared canvas holds other scenes too, so it can't be captured */}
+          {scene && !sharedRenderer && (
+            <ExportMenu sceneId={sceneId} scene={scene} />
+          )}
+          <select
+            value={transition.kind}
+            title="Transition"
+            onChange={(event) =>
+              setTransition({
+                ...transition,
+                kind: event.target.value as Transition["kind"],
+              })
+            }
+          >
+            {Object.entries(transitionKinds).map(([label, kind]) => (
+              <option key={kind} value={kind}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <RenderPolicyMenu policy={policy} onChange={handlePolicyChange} />
+          {message && <div className="shaderland-message">{message}</div>}
+        </div>
+      )}
+      {!menu && policyMenu && (
+        <div className="shaderland-menu shaderland-menu-policy">
+          <RenderPolicyMenu policy={policy} onChange={handlePolicyChange} />
+        </div>
+      )}
+      {scene && showEditor && <ShaderEditor scene={scene} />}
+      {scene && showStats && <StatsOverlay scene={scene} />}
+      {scene && showTimeline && (
+        <TimelinePanel sceneId={sceneId} scene={scene} />
+      )}
+    </>
+  );
+}
 
-  return <div ref={canvasRef}></div>;
+/** How long changes within a scene take to blend in. */
+function blendSeconds(transition: Transition): number {
+  return transition.kind === "cut" ? 0 : transition.seconds;
 }
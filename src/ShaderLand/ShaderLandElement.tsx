@@ -0,0 +1,111 @@
+import { createRoot, Root } from "react-dom/client";
+import { defaultSceneId } from "./registry";
+import { RemoteOptions } from "./remote";
+import { ParamValues } from "./scene";
+import { ShaderLand } from "./ShaderLand";
+
+/**
+ * `<shader-land>`: ShaderLand for pages that don't use React. Attributes
+ * mirror the component's props:
+ *
+ * - `scene`: scene id, the default scene when left out
+ * - `preset`: name of a built-in preset
+ * - `params`: JSON object of param values
+ * - `gui`, `menu`, `policy-menu`, `paused`: boolean attributes, off unless
+ *   present
+ * - `remote`: boolean; obeys remote commands from the "shaderland"
+ *   BroadcastChannel, and `postMessage` commands from windows of this origin
+ * - `remote-origins`: space-separated origins whose `postMessage` commands
+ *   are obeyed too, "*" for any
+ * - `remote-relay`: WebSocket relay URL to take remote commands from too
+ *
+ * The element is a block that the scene fills, so give it a height. Every
+ * edit made in the GUI dispatches a bubbling `paramschange` event whose
+ * `detail` holds all the params.
+ */
+export class ShaderLandElement extends HTMLElement {
+  static observedAttributes = [
+    "scene",
+    "preset",
+    "params",
+    "gui",
+    "menu",
+    "policy-menu",
+    "paused",
+    "remote",
+    "remote-origins",
+    "remote-relay",
+  ];
+
+  private root: Root | null = null;
+
+  connectedCallback(): void {
+    this.root = createRoot(this);
+    this.renderScene();
+  }
+
+  disconnectedCallback(): void {
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback(): void {
+    if (this.root) this.renderScene();
+  }
+
+  private renderScene(): void {
+    this.root?.render(
+      <ShaderLand
+        sceneId={this.getAttribute("scene") ?? defaultSceneId}
+        preset={this.getAttribute("preset") ?? undefined}
+        params={this.parseParams()}
+        gui={this.hasAttribute("gui")}
+        menu={this.hasAttribute("menu")}
+        policyMenu={this.hasAttribute("policy-menu")}
+        paused={this.hasAttribute("paused")}
+        remote={this.remoteOptions()}
+        onParamsChange={this.handleParamsChange}
+      />,
+    );
+  }
+
+  private remoteOptions(): RemoteOptions | undefined {
+    const relayUrl = this.getAttribute("remote-relay") ?? undefined;
+    if (!this.hasAttribute("remote") && !relayUrl) return undefined;
+    const origins = (this.getAttribute("remote-origins") ?? "")
+      .split(/\s+/)
+      .filter((origin) => origin !== "");
+    return { origins: [window.location.origin, ...origins], relayUrl };
+  }
+
+  private parseParams(): ParamValues | undefined {
+    const value = this.getAttribute("params");
+    if (value === null) return undefined;
+
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      console.warn(
+        "Ignoring invalid shader-land params:",
+        (error as Error).message,
+      );
+      return undefined;
+    }
+  }
+
+  private handleParamsChange = (params: ParamValues): void => {
+    this.dispatchEvent(
+      new CustomEvent<ParamValues>("paramschange", {
+        detail: params,
+        bubbles: true,
+      }),
+    );
+  };
+}
+
+/** Registers `<shader-land>`, or the element under another tag name. */
+export function defineShaderLandElement(tagName = "shader-land"): void {
+  if (!customElements.get(tagName)) {
+    customElements.define(tagName, ShaderLandElement);
+  }
+}
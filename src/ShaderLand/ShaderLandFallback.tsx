@@ -0,0 +1,13 @@
+interface ShaderLandFallbackProps {
+  reason: string;
+}
+
+/** Animated CSS stand-in for the scenes when WebGL can't be used. */
+export function ShaderLandFallback({ reason }: ShaderLandFallbackProps) {
+  return (
+    <div className="shaderland-fallback">
+      <div className="shaderland-fallback-stripes" />
+      <p className="shaderland-message">{reason}</p>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+import { FrameStats } from "./governor";
+import { ShaderScene } from "./scene";
+
+interface StatsOverlayProps {
+  scene: ShaderScene;
+}
+
+/** How often the overlay reads the scene's stats */
+const refreshMs = 500;
+
+export function StatsOverlay({ scene }: StatsOverlayProps) {
+  const [stats, setStats] = useState<FrameStats>(() => scene.getStats());
+
+  useEffect(() => {
+    const interval = setInterval(() => setStats(scene.getStats()), refreshMs);
+    return () => clearInterval(interval);
+  }, [scene]);
+
+  return (
+    <div className="shaderland-stats">
+      <div>{stats.fps.toFixed(0)} fps</div>
+      <div>{stats.frameMs.toFixed(1)} ms</div>
+      <div>{stats.drawCalls} draw calls</div>
+      <div>{stats.triangles.toLocaleString()} triangles</div>
+      <div>
+        {Math.round(stats.renderScale * 100)}% scale @{" "}
+        {stats.pixelRatio.toFixed(2)}x
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+import {
+  ChangeEvent,
+  MouseEvent,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { ShaderScene } from "./scene";
+import {
+  Easing,
+  easings,
+  exportTimeline,
+  importTimeline,
+  Keyframe,
+  Timeline,
+  TimelineTarget,
+  timelinePosition,
+} from "./timeline";
+
+interface TimelinePanelProps {
+  sceneId: string;
+  scene: ShaderScene;
+}
+
+interface Selection {
+  track: number;
+  keyframe: number;
+}
+
+/** How often the playhead follows the scene clock */
+const playheadRefreshMs = 100;
+
+export function TimelinePanel({ sceneId, scene }: TimelinePanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const targets = useMemo(() => scene.getTimelineTargets(), [scene]);
+  const [timeline, setTimeline] = useState<Timeline>(() => scene.getTimeline());
+  const [selected, setSelected] = useState<Selection | null>(null);
+  const [newTarget, setNewTarget] = useState(targets[0].key);
+  const [playhead, setPlayhead] = useState(0);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTimeline(scene.getTimeline());
+    setSelected(null);
+    setMessage(null);
+  }, [scene]);
+
+  useEffect(() => {
+    const interval = setInterval(
+      () => setPlayhead(timelinePosition(timeline, scene.clock.time)),
+      playheadRefreshMs,
+    );
+    return () => clearInterval(interval);
+  }, [scene, timeline]);
+
+  const findTarget = (key: string): TimelineTarget | undefined =>
+    targets.find((target) => target.key === key);
+
+  const update = (next: Timeline) => {
+    scene.setTimeline(next);
+    setTimeline(next);
+  };
+
+  const updateTrack = (
+    index: number,
+    keyframes: Keyframe[],
+    selectKeyframe: number | null = null,
+  ) => {
+    const tracks = timeline.tracks.map((track, trackIndex) =>
+      trackIndex === index ? { ...track, keyframes } : track,
+    );
+    update({ ...timeline, tracks });
+    setSelected(
+      selectKeyframe === null
+        ? null
+        : { track: index, keyframe: selectKeyframe },
+    );
+  };
+
+  const handleAddTrack = () => {
+    if (timeline.tracks.some((track) => track.target === newTarget)) {
+      setMessage("That target already has a track");
+      return;
+    }
+    update({
+      ...timeline,
+      tracks: [...timeline.tracks, { target: newTarget, keyframes: [] }],
+    });
+    setMessage(null);
+  };
+
+  const handleRemoveTrack = (index: number) => {
+    update({
+      ...timeline,
+      tracks: timeline.tracks.filter((_, trackIndex) => trackIndex !== index),
+    });
+    setSelected(null);
+  };
+
+  /** Keys the target's current value at the playhead. */
+  const handleAddKeyframe = (index: number) => {
+    const track = timeline.tracks[index];
+    const keyframe: Keyframe = {
+      time: Math.round(playhead * 100) / 100,
+      value: scene.getTargetValue(track.target),
+      easing: "easeInOut",
+    };
+    const keyframes = track.keyframes
+      .filter((existing) => existing.time !== keyframe.time)
+      .concat(keyframe)
+      .sort((a, b) => a.time - b.time);
+    updateTrack(index, keyframes, keyframes.indexOf(keyframe));
+  };
+
+  const handleEditKeyframe = (changes: Partial<Keyframe>) => {
+    if (!selected) return;
+    const track = timeline.tracks[selected.track];
+    const edited = { ...track.keyframes[selected.keyframe], ...changes };
+    // A new time can move the keyframe past its neighbours
+    const keyframes = track.keyframes
+      .map((keyframe, index) =>
+        index === selected.keyframe ? edited : keyframe,
+      )
+      .sort((a, b) => a.time - b.time);
+    updateTrack(selected.track, keyframes, keyframes.indexOf(edited));
+  };
+
+  const handleDeleteKeyframe = () => {
+    if (!selected) return;
+    updateTrack(
+      selected.track,
+      timeline.tracks[selected.track].keyframes.filter(
+        (_, index) => index !== selected.keyframe,
+      ),
+    );
+  };
+
+  /** Clicking a track's lane moves the scene clock there. */
+  const handleScrub = (event: MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const fraction = (event.clientX - rect.left) / rect.width;
+    scene.clock.time = Math.max(0, fraction * timeline.duration);
+  };
+
+  const handleLoad = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const loaded = await importTimeline(file, sceneId, targets);
+      update(loaded);
+      setSelected(null);
+      setMessage(`Loaded "${file.name}"`);
+    } catch (error) {
+      setMessage((error as Error).message);
+    }
+  };
+
+  const selectedTrack = selected ? timeline.tracks[selected.track] : null;
+  const selectedKeyframe =
+    selected && selectedTrack
+      ? selectedTrack.keyframes[selected.keyframe]
+      : null;
+  const selectedTarget = selectedTrack
+    ? findTarget(selectedTrack.target)
+    : null;
+
+  return (
+    <div className="shaderland-timeline">
+      <div className="shaderland-timeline-toolbar">
+        <label>
+          Duration
+          <input
+            type="number"
+            min={0.5}
+            step={0.5}
+            value={timeline.duration}
+            onChange={(event) => {
+              const duration = Number(event.target.value);
+              if (duration > 0) update({ ...timeline, duration });
+            }}
+          />
+          s
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={timeline.loop}
+            onChange={(event) =>
+              update({ ...timeline, loop: event.target.checked })
+            }
+          />
+          Loop
+        </label>
+        <select
+          value={newTarget}
+          onChange={(event) => setNewTarget(event.target.value)}
+        >
+          {targets.map((target) => (
+            <option key={target.key} value={target.key}>
+              {target.label}
+            </option>
+          ))}
+        </select>
+        <button onClick={handleAddTrack}>Add Track</button>
+        <button onClick={() => exportTimeline(sceneId, timeline)}>Save</button>
+        <button onClick={() => fileInputRef.current?.click()}>Load</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          hidden
+          onChange={handleLoad}
+        />
+        <span className="shaderland-timeline-time">{playhead.toFixed(2)}s</span>
+      </div>
+      {timeline.tracks.map((track, trackIndex) => (
+        <div key={track.target} className="shaderland-timeline-track">
+          <span className="shaderland-timeline-label">
+            {findTarget(track.target)?.label ?? track.target}
+          </span>
+          <div className="shaderland-timeline-lane" onClick={handleScrub}>
+            {track.keyframes.map((keyframe, keyframeIndex) => (
+              <button
+                key={keyframeIndex}
+                className={
+                  selected?.track === trackIndex &&
+                  selected.keyframe === keyframeIndex
+                    ? "shaderland-timeline-key active"
+                    : "shaderland-timeline-key"
+                }
+                style={{
+                  left: `${(keyframe.time / timeline.duration) * 100}%`,
+                }}
+                title={`${keyframe.time}s: ${keyframe.value}`}
+                onClick={(event) => {
+                  event.stopPropagation();
+                  setSelected({ track: trackIndex, keyframe: keyframeIndex });
+                }}
+              />
+            ))}
+            <div
+              className="shaderland-timeline-playhead"
+              style={{ left: `${(playhead / timeline.duration) * 100}%` }}
+            />
+          </div>
+          <button onClick={() => handleAddKeyframe(trackIndex)}>Key</button>
+          <button onClick={() => handleRemoveTrack(trackIndex)}>×</button>
+        </div>
+      ))}
+      {selectedKeyframe && selectedTarget && (
+        <div className="shaderland-timeline-toolbar">
+          <label>
+            Time
+            <input
+              type="number"
+              min={0}
+              max={timeline.duration}
+              step={0.05}
+              value={selectedKeyframe.time}
+              onChange={(event) =>
+                handleEditKeyframe({ time: Number(event.target.value) })
+              }
+            />
+          </label>
+          <label>
+            Value
+            <KeyframeValueInput
+              target={selectedTarget}
+              value={selectedKeyframe.value}
+              onChange={(value) => handleEditKeyframe({ value })}
+            />
+          </label>
+          <label>
+            Easing
+            <select
+              value={selectedKeyframe.easing}
+              onChange={(event) =>
+                handleEditKeyframe({ easing: event.target.value as Easing })
+              }
+            >
+              {Object.entries(easings).map(([label, easing]) => (
+                <option key={easing} value={easing}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button onClick={handleDeleteKeyframe}>Delete Key</button>
+        </div>
+      )}
+      {message && <div className="shaderland-message">{message}</div>}
+    </div>
+  );
+}
+
+interface KeyframeValueInputProps {
+  target: TimelineTarget;
+  value: number | string;
+  onChange: (value: number | string) => void;
+}
+
+function KeyframeValueInput({
+  target,
+  value,
+  onChange,
+}: KeyframeValueInputProps) {
+  if (target.type === "color") {
+    return (
+      <input
+        type="color"
+        value={value as string}
+        onChange={(event) => onChange(event.target.value)}
+      />
+    );
+  }
+  if (target.type === "select") {
+    return (
+      <select
+        value={value as string}
+        onChange={(event) => onChange(event.target.value)}
+      >
+        {target.options?.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    );
+  }
+  return (
+    <input
+      type="number"
+      min={target.min}
+      max={target.max}
+      step="any"
+      value={value as number}
+      onChange={(event) => onChange(Number(event.target.value))}
+    />
+  );
+}
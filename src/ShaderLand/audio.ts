@@ -0,0 +1,176 @@
+export type AudioFeature = "bass" | "mid" | "treble" | "level" | "beat";
+
+/** Each feature normalized to [0, 1] */
+export type AudioFeatures = Record<AudioFeature, number>;
+
+/** Frequency ranges in Hz for the band energies */
+const bands: Record<"bass" | "mid" | "treble", [number, number]> = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  treble: [2000, 8000],
+};
+
+// Time constants in seconds
+const envelopeAttack = 0.01;
+const envelopeRelease = 0.3;
+const beatDecay = 0.15;
+const bassAverageWindow = 1;
+
+/** A beat is bass energy this far above its running average */
+const beatThreshold = 1.4;
+const beatMinEnergy = 0.1;
+const beatMinInterval = 0.25;
+
+const silence: AudioFeatures = {
+  bass: 0,
+  mid: 0,
+  treble: 0,
+  level: 0,
+  beat: 0,
+};
+
+/**
+ * Web Audio analysis of a local audio file or the microphone. `sample()`
+ * reduces the current spectrum to band energies, a level envelope and a
+ * decaying beat pulse.
+ */
+export class AudioInput {
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private source: AudioNode | null = null;
+  private element: HTMLAudioElement | null = null;
+  private stream: MediaStream | null = null;
+  private spectrum = new Uint8Array(0);
+  private waveform = new Float32Array(0);
+  private envelope = 0;
+  private beat = 0;
+  private bassAverage = 0;
+  private lastBeat = -Infinity;
+  private lastSample: number | null = null;
+
+  public get active(): boolean {
+    return this.source !== null;
+  }
+
+  /** Plays `file` on a loop through the analyser and the speakers. */
+  public async useFile(file: File): Promise<void> {
+    this.stop();
+    const { context, analyser } = this.connect();
+    const element = new Audio(URL.createObjectURL(file));
+    element.loop = true;
+    this.element = element;
+    const source = context.createMediaElementSource(element);
+    source.connect(analyser);
+    analyser.connect(context.destination);
+    this.source = source;
+    await element.play();
+  }
+
+  /** Analyses the microphone. It isn't played back, to avoid feedback. */
+  public async useMicrophone(): Promise<void> {
+    this.stop();
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const { context, analyser } = this.connect();
+    this.stream = stream;
+    const source = context.createMediaStreamSource(stream);
+    source.connect(analyser);
+    this.source = source;
+  }
+
+  public stop(): void {
+    this.source?.disconnect();
+    this.analyser?.disconnect();
+    this.source = null;
+    if (this.element) {
+      this.element.pause();
+      URL.revokeObjectURL(this.element.src);
+      this.element = null;
+    }
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    this.envelope = 0;
+    this.beat = 0;
+    this.lastSample = null;
+  }
+
+  public dispose(): void {
+    this.stop();
+    this.context?.close();
+    this.context = null;
+    this.analyser = null;
+  }
+
+  /** Reads the features at `now`, a `performance.now()` timestamp. */
+  public sample(now: number): AudioFeatures {
+    const analyser = this.analyser;
+    if (!analyser || !this.source) return { ...silence };
+
+    const elapsed =
+      this.lastSample === null ? 0 : (now - this.lastSample) / 1000;
+    this.lastSample = now;
+
+    analyser.getByteFrequencyData(this.spectrum);
+    analyser.getFloatTimeDomainData(this.waveform);
+    const binWidth = analyser.context.sampleRate / analyser.fftSize;
+    const bandEnergy = ([low, high]: [number, number]) => {
+      const start = Math.max(1, Math.floor(low / binWidth));
+      const end = Math.min(this.spectrum.length, Math.ceil(high / binWidth));
+      let sum = 0;
+      for (let bin = start; bin < end; bin++) sum += this.spectrum[bin];
+      return end > start ? sum / (end - start) / 255 : 0;
+    };
+    const bass = bandEnergy(bands.bass);
+
+    // Envelope follower on the RMS level: fast attack, slow release
+    let squares = 0;
+    this.waveform.forEach((value) => (squares += value * value));
+    const rms = Math.min(1, Math.sqrt(squares / this.waveform.length) * 2);
+    const timeConstant = rms > this.envelope ? envelopeAttack : envelopeRelease;
+    this.envelope += (rms - this.envelope) * follow(elapsed, timeConstant);
+
+    // Beat: a bass spike well above its recent average
+    const seconds = now / 1000;
+    this.beat *= Math.exp(-elapsed / beatDecay);
+    if (
+      bass > beatMinEnergy &&
+      bass > this.bassAverage * beatThreshold &&
+      seconds - this.lastBeat > beatMinInterval
+    ) {
+      this.beat = 1;
+      this.lastBeat = seconds;
+    }
+    this.bassAverage +=
+      (bass - this.bassAverage) * follow(elapsed, bassAverageWindow);
+
+    return {
+      bass,
+      mid: bandEnergy(bands.mid),
+      treble: bandEnergy(bands.treble),
+      level: this.envelope,
+      beat: this.beat,
+    };
+  }
+
+  private connect(): { context: AudioContext; analyser: AnalyserNode } {
+    const context = this.context ?? new AudioContext();
+    let analyser = this.analyser;
+    if (!analyser) {
+      analyser = context.createAnalyser();
+      analyser.fftSize = 2048;
+      analyser.smoothingTimeConstant = 0.6;
+      this.spectrum = new Uint8Array(analyser.frequencyBinCount);
+      this.waveform = new Float32Array(analyser.fftSize);
+    }
+    this.context = context;
+    this.analyser = analyser;
+
+    // Browsers create contexts suspended until a user gesture
+    context.resume();
+    return { context, analyser };
+  }
+}
+
+/** Fraction of the way to move towards a target over `elapsed` seconds. */
+function follow(elapsed: number, timeConstant: number): number {
+  return 1 - Math.exp(-elapsed / timeConstant);
+}
@@ -0,0 +1,273 @@
+import * as THREE from "three";
+import * as dat from "dat.gui";
+import { AudioFeature, AudioInput } from "./audio";
+import { ParamSchema } from "./params";
+
+/** Maps an audio feature onto a param, or onto the torus group's rotation. */
+export interface AudioRoute {
+  feature: AudioFeature;
+  /** Param key, or `rotationTarget` */
+  target: string;
+  gain: number;
+  /** 0 follows the feature instantly, values near 1 respond slowly */
+  smoothing: number;
+  /** Target value at silence */
+  min: number;
+  /** Target value at full scale */
+  max: number;
+}
+
+export interface AudioRouteTarget {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+}
+
+/** Route target for the extra spin of the torus group, in degrees */
+export const rotationTarget = "rotation";
+
+/**
+ * What audio can drive in a scene with `schema`: any number param that a
+ * uniform or pass mirrors, unless it rebuilds geometry, and the rotation.
+ */
+export function audioRouteTargets<P>(
+  schema: ParamSchema<P>,
+): AudioRouteTarget[] {
+  const targets: AudioRouteTarget[] = [];
+  for (const definition of schema) {
+    if (
+      definition.type === "number" &&
+      (definition.uniform || definition.pass) &&
+      !definition.rebuildsGeometry
+    ) {
+      const { key, label, min, max } = definition;
+      targets.push({ key, label, min, max });
+    }
+  }
+  targets.push({
+    key: rotationTarget,
+    label: "Torus Rotation",
+    min: -180,
+    max: 180,
+  });
+  return targets;
+}
+
+const featureOptions: { [label: string]: AudioFeature } = {
+  Bass: "bass",
+  Mid: "mid",
+  Treble: "treble",
+  Level: "level",
+  Beat: "beat",
+};
+
+interface ActiveRoute {
+  route: AudioRoute;
+  folder: dat.GUI;
+  /** Smoothed feature amount in [0, 1] */
+  amount: number;
+}
+
+/**
+ * Reports what's wrong with an untrusted route, or null when it's usable.
+ * `targets` holds the keys routes may modulate.
+ */
+export function checkAudioRoute(
+  route: unknown,
+  targets: string[],
+): string | null {
+  if (typeof route !== "object" || route === null) {
+    return "audio routes must be objects";
+  }
+  const { feature, target, gain, smoothing, min, max } = route as Record<
+    string,
+    unknown
+  >;
+  if (!Object.values(featureOptions).includes(feature as AudioFeature)) {
+    return `unknown audio feature "${String(feature)}"`;
+  }
+  if (typeof target !== "string" || !targets.includes(target)) {
+    return `audio route target "${String(target)}" can't be modulated`;
+  }
+  if (
+    ![gain, smoothing, min, max].every(
+      (value) => typeof value === "number" && Number.isFinite(value),
+    )
+  ) {
+    return `audio route for "${target}" needs numeric gain, smoothing, min and max`;
+  }
+  return null;
+}
+
+/**
+ * The "Audio" GUI folder: picks the audio input and edits the routes from its
+ * features to scene params. `update()` pushes the routed values through
+ * `modulate` every frame; a null value asks for the unmodulated param back.
+ */
+export class AudioRoutes {
+  private input: AudioInput;
+  private targets: AudioRouteTarget[];
+  private modulate: (target: string, value: number | null) => void;
+  private showMessage: (message: string) => void;
+  private folder: dat.GUI;
+  private routes: ActiveRoute[] = [];
+  private lastUpdate: number | null = null;
+  private addControls: { target: string; add: () => void };
+
+  /** `showMessage` tells the user why an audio input couldn't start. */
+  constructor(
+    gui: dat.GUI,
+    input: AudioInput,
+    targets: AudioRouteTarget[],
+    modulate: (target: string, value: number | null) => void,
+    showMessage: (message: string) => void,
+  ) {
+    this.input = input;
+    this.targets = targets;
+    this.modulate = modulate;
+    this.showMessage = showMessage;
+
+    const inputControls = {
+      file: () => this.pickFile(),
+      microphone: () => this.useInput(this.input.useMicrophone()),
+      stop: () => {
+        this.input.stop();
+        this.release();
+      },
+    };
+    this.addControls = {
+      target: targets[0].key,
+      add: () => {
+        const target = this.findTarget(this.addControls.target);
+        if (!target) return;
+        this.add({
+          feature: "bass",
+          target: target.key,
+          gain: 1,
+          smoothing: 0.5,
+          min: target.min,
+          max: target.max,
+        });
+      },
+    };
+
+    const targetOptions: Record<string, string> = {};
+    for (const target of targets) targetOptions[target.label] = target.key;
+
+    this.folder = gui.addFolder("Audio");
+    this.folder.add(inputControls, "file").name("Load Audio File");
+    this.folder.add(inputControls, "microphone").name("Use Microphone");
+    this.folder.add(inputControls, "stop").name("Stop Audio");
+    this.folder
+      .add(this.addControls, "target", targetOptions)
+      .name("New Route");
+    this.folder.add(this.addControls, "add").name("Add Route");
+  }
+
+  public getRoutes(): AudioRoute[] {
+    return this.routes.map(({ route }) => ({ ...route }));
+  }
+
+  /** Replaces every route; routes to unknown targets are dropped. */
+  public setRoutes(routes: AudioRoute[]): void {
+    [...this.routes].forEach((active) => this.remove(active));
+    routes
+      .filter((route) => this.findTarget(route.target))
+      .forEach((route) => this.add({ ...route }));
+  }
+
+  /** Samples the input and applies every route. `now` is a rAF timestamp. */
+  public update(now: number): void {
+    if (!this.input.active) {
+      this.lastUpdate = null;
+      return;
+    }
+
+    const elapsed =
+      this.lastUpdate === null ? 0 : (now - this.lastUpdate) / 1000;
+    this.lastUpdate = now;
+    const features = this.input.sample(now);
+
+    for (const active of this.routes) {
+      const { route } = active;
+      const amount = THREE.MathUtils.clamp(
+        features[route.feature] * route.gain,
+        0,
+        1,
+      );
+      // Smoothing is per 60fps frame, scaled to the real frame time
+      const follow = 1 - Math.pow(route.smoothing, elapsed * 60);
+      active.amount += (amount - active.amount) * follow;
+      this.modulate(
+        route.target,
+        THREE.MathUtils.lerp(route.min, route.max, active.amount),
+      );
+    }
+  }
+
+  private add(route: AudioRoute): void {
+    const target = this.findTarget(route.target);
+    if (!target) return;
+
+    const folder = this.folder.addFolder(this.uniqueFolderName(target.label));
+    const active: ActiveRoute = { route, folder, amount: 0 };
+    this.routes.push(active);
+
+    const step = (target.max - target.min) / 100;
+    folder.add(route, "feature", featureOptions).name("Feature");
+    folder.add(route, "gain", 0, 10, 0.1).name("Gain");
+    folder.add(route, "smoothing", 0, 0.99, 0.01).name("Smoothing");
+    folder.add(route, "min", target.min, target.max, step).name("Min");
+    folder.add(route, "max", target.min, target.max, step).name("Max");
+    folder.add({ remove: () => this.remove(active) }, "remove").name("Remove");
+    folder.open();
+  }
+
+  private remove(active: ActiveRoute): void {
+    this.routes = this.routes.filter((entry) => entry !== active);
+    this.folder.removeFolder(active.folder);
+    this.modulate(active.route.target, null);
+  }
+
+  /** Hands every routed target back to its unmodulated value. */
+  private release(): void {
+    for (const active of this.routes) {
+      active.amount = 0;
+      this.modulate(active.route.target, null);
+    }
+  }
+
+  private pickFile(): void {
+    const picker = document.createElement("input");
+    picker.type = "file";
+    picker.accept = "audio/*";
+    picker.onchange = () => {
+      const file = picker.files?.[0];
+      if (file) this.useInput(this.input.useFile(file));
+    };
+    picker.click();
+  }
+
+  private async useInput(starting: Promise<void>): Promise<void> {
+    this.release();
+    try {
+      await starting;
+    } catch (error) {
+      this.input.stop();
+      this.showMessage(`Audio input unavailable: ${(error as Error).message}`);
+    }
+  }
+
+  private findTarget(key: string): AudioRouteTarget | undefined {
+    return this.targets.find((target) => target.key === key);
+  }
+
+  private uniqueFolderName(name: string): string {
+    let candidate = name;
+    for (let index = 2; candidate in this.folder.__folders; index++) {
+      candidate = `${name} ${index}`;
+    }
+    return candidate;
+  }
+}
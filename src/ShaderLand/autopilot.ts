@@ -0,0 +1,307 @@
+import * as THREE from "three";
+import { OrbitControls } from "three/examples/jsm/controls/OrbitControls";
+import * as dat from "dat.gui";
+import { downloadBlob } from "./download";
+import { PointerInteraction } from "./interaction";
+
+export const CAMERA_PATH_FORMAT = "shaderland-camera-path";
+
+type Vector3Tuple = [number, number, number];
+
+export interface Waypoint {
+  position: Vector3Tuple;
+  /** Point the camera looks at */
+  target: Vector3Tuple;
+}
+
+export type AutopilotMode = "off" | "orbit" | "path";
+
+/** A loop around the shapes the path starts with before any recording */
+const defaultWaypoints: Waypoint[] = [
+  { position: [0, 0, 30], target: [0, 0, 0] },
+  { position: [24, 8, 14], target: [0, 0, 0] },
+  { position: [6, -10, -26], target: [0, 0, 0] },
+  { position: [-22, 4, 6], target: [0, 0, 0] },
+];
+
+const focusBox = new THREE.Box3();
+
+const modeOptions: { [label: string]: AutopilotMode } = {
+  Off: "off",
+  Orbit: "orbit",
+  "Spline Path": "path",
+};
+
+/**
+ * Flies the camera while nobody is orbiting it or spinning the shapes,
+ * either around the shapes or along a spline through recorded waypoints.
+ * Input hands the camera straight back to the controls; after `idleSeconds`
+ * without input the autopilot eases back onto its course over
+ * `blendSeconds`.
+ */
+export class Autopilot {
+  public mode: AutopilotMode = "off";
+  public radius = 30;
+  public height = 6;
+  /** Degrees per second of scene time; negative orbits the other way */
+  public orbitSpeed = 12;
+  public lookAt: "origin" | "shapes" = "origin";
+  /** Seconds of scene time for one trip along the path */
+  public pathDuration = 24;
+  public idleSeconds = 4;
+  public blendSeconds = 1.5;
+  private camera: THREE.PerspectiveCamera;
+  private controls: OrbitControls;
+  private shapes: THREE.Object3D;
+  private waypoints: Waypoint[] = defaultWaypoints.map(cloneWaypoint);
+  private positionCurve: THREE.CatmullRomCurve3 | null = null;
+  private targetCurve: THREE.CatmullRomCurve3 | null = null;
+  /** When the user last touched the controls, in ms, or null while held */
+  private lastInput: number | null = 0;
+  private blendStart: number | null = null;
+  private blendFrom = {
+    position: new THREE.Vector3(),
+    target: new THREE.Vector3(),
+  };
+  private pose = { position: new THREE.Vector3(), target: new THREE.Vector3() };
+  private status = { waypoints: "" };
+  private showMessage: (message: string) => void;
+  private stopWatchingDrags: () => void;
+
+  /** `showMessage` tells the user how loading a camera path went. */
+  constructor(
+    gui: dat.GUI,
+    camera: THREE.PerspectiveCamera,
+    controls: OrbitControls,
+    interaction: PointerInteraction,
+    shapes: THREE.Object3D,
+    showMessage: (message: string) => void,
+  ) {
+    this.camera = camera;
+    this.controls = controls;
+    this.shapes = shapes;
+    this.showMessage = showMessage;
+    this.rebuildCurves();
+
+    controls.addEventListener("start", this.handleInputStart);
+    controls.addEventListener("end", this.handleInputEnd);
+    this.stopWatchingDrags = interaction.onDrag((dragging) =>
+      dragging ? this.handleInputStart() : this.handleInputEnd(),
+    );
+
+    const actions = {
+      record: () => this.recordWaypoint(),
+      clear: () => {
+        this.waypoints = [];
+        this.rebuildCurves();
+      },
+      save: () => this.savePath(),
+      load: () => this.pickPath(),
+    };
+    const folder = gui.addFolder("Autopilot");
+    folder
+      .add(this, "mode", modeOptions)
+      .name("Mode")
+      .onChange(() => this.handleModeChange());
+    folder.add(this, "radius", 5, 100, 1).name("Orbit Radius");
+    folder.add(this, "height", -50, 50, 1).name("Orbit Height");
+    folder.add(this, "orbitSpeed", -90, 90, 1).name("Orbit Speed");
+    folder
+      .add(this, "lookAt", { Origin: "origin", Shapes: "shapes" })
+      .name("Look At");
+    folder.add(this, "pathDuration", 2, 120, 1).name("Path Duration");
+    folder.add(this, "idleSeconds", 0.5, 30, 0.5).name("Resume After");
+    folder.add(this, "blendSeconds", 0, 5, 0.1).name("Blend Time");
+    folder.add(actions, "record").name("Record Waypoint");
+    folder.add(actions, "clear").name("Clear Path");
+    folder.add(actions, "save").name("Save Path");
+    folder.add(actions, "load").name("Load Path");
+    folder.add(this.status, "waypoints").name("Waypoints").listen();
+  }
+
+  /**
+   * Moves the camera to where the autopilot is at scene time `time`, unless
+   * the user has it. `now` is a `performance.now()` timestamp.
+   */
+  public update(time: number, now: number): void {
+    if (this.mode === "off" || this.lastInput === null) return;
+    if (now - this.lastInput < this.idleSeconds * 1000) return;
+    if (!this.course(time)) return;
+
+    if (this.blendStart === null) {
+      this.blendStart = now;
+      this.blendFrom.position.copy(this.camera.position);
+      this.blendFrom.target.copy(this.controls.target);
+    }
+    const progress =
+      this.blendSeconds > 0
+        ? (now - this.blendStart) / (this.blendSeconds * 1000)
+        : 1;
+    const blend = THREE.MathUtils.smoothstep(progress, 0, 1);
+
+    this.camera.position.lerpVectors(
+      this.blendFrom.position,
+      this.pose.position,
+      blend,
+    );
+    // The controls orbit their target, so it follows the autopilot's
+    this.controls.target.lerpVectors(
+      this.blendFrom.target,
+      this.pose.target,
+      blend,
+    );
+    this.camera.lookAt(this.controls.target);
+  }
+
+  /** Adds the camera's current position and target to the end of the path. */
+  public recordWaypoint(): void {
+    this.waypoints.push({
+      position: this.camera.position.toArray() as Vector3Tuple,
+      target: this.controls.target.toArray() as Vector3Tuple,
+    });
+    this.rebuildCurves();
+  }
+
+  public getWaypoints(): Waypoint[] {
+    return this.waypoints.map(cloneWaypoint);
+  }
+
+  public setWaypoints(waypoints: Waypoint[]): void {
+    this.waypoints = waypoints.map(cloneWaypoint);
+    this.rebuildCurves();
+  }
+
+  public dispose(): void {
+    this.controls.removeEventListener("start", this.handleInputStart);
+    this.controls.removeEventListener("end", this.handleInputEnd);
+    this.stopWatchingDrags();
+  }
+
+  /** Sets `pose` to the autopilot's course at `time`; false if there's none. */
+  private course(time: number): boolean {
+    if (this.mode === "orbit") {
+      const focus = this.pose.target;
+      if (this.lookAt === "shapes") {
+        focusBox.setFromObject(this.shapes).getCenter(focus);
+      } else {
+        focus.set(0, 0, 0);
+      }
+      const angle = THREE.MathUtils.degToRad(time * this.orbitSpeed);
+      this.pose.position.set(
+        focus.x + Math.sin(angle) * this.radius,
+        focus.y + this.height,
+        focus.z + Math.cos(angle) * this.radius,
+      );
+      return true;
+    }
+
+    if (this.waypoints.length === 1) {
+      this.pose.position.set(...this.waypoints[0].position);
+      this.pose.target.set(...this.waypoints[0].target);
+      return true;
+    }
+    if (!this.positionCurve || !this.targetCurve) return false;
+    // Even speed along the positions; targets keep pace with their waypoints
+    const along = this.positionCurve.getUtoTmapping(
+      THREE.MathUtils.euclideanModulo(time / this.pathDuration, 1),
+      0,
+    );
+    this.positionCurve.getPoint(along, this.pose.position);
+    this.targetCurve.getPoint(along, this.pose.target);
+    return true;
+  }
+
+  private rebuildCurves(): void {
+    this.status.waypoints = String(this.waypoints.length);
+    // A spline needs two points; course() holds a lone waypoint instead
+    if (this.waypoints.length < 2) {
+      this.positionCurve = null;
+      this.targetCurve = null;
+      return;
+    }
+    this.positionCurve = new THREE.CatmullRomCurve3(
+      this.waypoints.map((waypoint) => new THREE.Vector3(...waypoint.position)),
+      true,
+      "centripetal",
+    );
+    this.targetCurve = new THREE.CatmullRomCurve3(
+      this.waypoints.map((waypoint) => new THREE.Vector3(...waypoint.target)),
+      true,
+      "centripetal",
+    );
+  }
+
+  private handleModeChange(): void {
+    // Ease onto the new course from wherever the camera is
+    this.blendStart = null;
+  }
+
+  private handleInputStart = (): void => {
+    this.lastInput = null;
+    this.blendStart = null;
+  };
+
+  private handleInputEnd = (): void => {
+    this.lastInput = performance.now();
+  };
+
+  private savePath(): void {
+    const json = JSON.stringify(
+      { format: CAMERA_PATH_FORMAT, waypoints: this.waypoints },
+      null,
+      2,
+    );
+    downloadBlob(
+      new Blob([json], { type: "application/json" }),
+      "camera-path.json",
+    );
+  }
+
+  private pickPath(): void {
+    const picker = document.createElement("input");
+    picker.type = "file";
+    picker.accept = "application/json,.json";
+    picker.onchange = async () => {
+      const file = picker.files?.[0];
+      if (!file) return;
+      try {
+        this.setWaypoints(parseCameraPath(await file.text()));
+        this.showMessage(`Loaded camera path "${file.name}"`);
+      } catch (error) {
+        this.showMessage(`Camera path not loaded: ${(error as Error).message}`);
+      }
+    };
+    picker.click();
+  }
+}
+
+/** Reads the waypoints of a saved camera path, throwing if it's unusable. */
+export function parseCameraPath(json: string): Waypoint[] {
+  const data = JSON.parse(json);
+  if (data?.format !== CAMERA_PATH_FORMAT || !Array.isArray(data.waypoints)) {
+    throw new Error(
+      `Not a camera path (expected "format": "${CAMERA_PATH_FORMAT}")`,
+    );
+  }
+  for (const waypoint of data.waypoints) {
+    if (!isVector(waypoint?.position) || !isVector(waypoint?.target)) {
+      throw new Error("Waypoints need a position and target of three numbers");
+    }
+  }
+  return data.waypoints;
+}
+
+function isVector(value: unknown): value is Vector3Tuple {
+  return (
+    Array.isArray(value) &&
+    value.length === 3 &&
+    value.every((component) => Number.isFinite(component))
+  );
+}
+
+function cloneWaypoint(waypoint: Waypoint): Waypoint {
+  return {
+    position: [...waypoint.position],
+    target: [...waypoint.target],
+  };
+}
@@ -0,0 +1,82 @@
+import * as THREE from "three";
+
+const sigma = 1.5;
+const kernelRadius = 6;
+
+/** Generated RGBA data by size; generating it is quadratic in pixel count */
+const dataCache = new Map<number, Uint8Array>();
+
+/**
+ * A tileable blue-noise threshold texture. The data is generated once per
+ * size and shared; each call wraps it in a new texture for its owner to
+ * dispose.
+ */
+export function createBlueNoiseTexture(size = 64): THREE.DataTexture {
+  let data = dataCache.get(size);
+  if (!data) {
+    data = generateBlueNoise(size);
+    dataCache.set(size, data);
+  }
+
+  const texture = new THREE.DataTexture(data, size, size);
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.RepeatWrapping;
+  texture.magFilter = THREE.NearestFilter;
+  texture.minFilter = THREE.NearestFilter;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+/**
+ * Ranks pixels by repeatedly placing the next one in the largest void of
+ * those already placed; a pixel's rank in that order becomes its threshold.
+ * This is the ranking phase of the void-and-cluster method, which is plenty
+ * for dithering.
+ */
+function generateBlueNoise(size: number): Uint8Array {
+  const pixelCount = size * size;
+  const energy = new Float32Array(pixelCount);
+  const placed = new Uint8Array(pixelCount);
+  const data = new Uint8Array(pixelCount * 4);
+
+  // Tiny deterministic jitter so ties don't settle into a regular grid
+  let seed = 1;
+  for (let i = 0; i < pixelCount; i++) {
+    seed = (seed * 16807) % 2147483647;
+    energy[i] = (seed / 2147483647) * 1e-6;
+  }
+
+  const kernel: number[] = [];
+  for (let dy = -kernelRadius; dy <= kernelRadius; dy++) {
+    for (let dx = -kernelRadius; dx <= kernelRadius; dx++) {
+      kernel.push(Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma)));
+    }
+  }
+
+  for (let rank = 0; rank < pixelCount; rank++) {
+    let voidIndex = -1;
+    for (let i = 0; i < pixelCount; i++) {
+      if (!placed[i] && (voidIndex < 0 || energy[i] < energy[voidIndex])) {
+        voidIndex = i;
+      }
+    }
+    placed[voidIndex] = 1;
+
+    const value = Math.floor((rank / pixelCount) * 256);
+    data.fill(value, voidIndex * 4, voidIndex * 4 + 3);
+    data[voidIndex * 4 + 3] = 255;
+
+    // Spread the new pixel's energy over its neighbourhood, wrapping edges
+    const x = voidIndex % size;
+    const y = Math.floor(voidIndex / size);
+    let k = 0;
+    for (let dy = -kernelRadius; dy <= kernelRadius; dy++) {
+      const row = ((y + dy + size) % size) * size;
+      for (let dx = -kernelRadius; dx <= kernelRadius; dx++) {
+        energy[row + ((x + dx + size) % size)] += kernel[k++];
+      }
+    }
+  }
+
+  return data;
+}
@@ -0,0 +1,51 @@
+/** Longest real-time gap a single tick advances, e.g. after a stalled tab */
+const maxTickSeconds = 0.1;
+
+/** Duration of one frame when stepping manually */
+const stepSeconds = 1 / 60;
+
+/**
+ * Scene time in seconds, advanced from real elapsed time so animation runs at
+ * the same rate on every display. Everything time-dependent in a scene is
+ * derived from `time`, which makes any frame reproducible by seeking to it.
+ */
+export class SceneClock {
+  public time = 0;
+  public speed = 1;
+  /** Slows time for reduced motion without touching the user's `speed` */
+  public motionScale = 1;
+  public playing = true;
+  private lastTick: number | null = null;
+
+  /** Advances by the real time since the previous tick, scaled by `speed`. */
+  public tick(now: number): void {
+    if (this.lastTick !== null && this.playing) {
+      const elapsed = Math.min((now - this.lastTick) / 1000, maxTickSeconds);
+      this.time += elapsed * this.speed * this.motionScale;
+    }
+    this.lastTick = now;
+  }
+
+  /** Forgets the previous tick so time doesn't jump across a stopped loop. */
+  public resetTick(): void {
+    this.lastTick = null;
+  }
+
+  public play(): void {
+    this.playing = true;
+  }
+
+  public pause(): void {
+    this.playing = false;
+  }
+
+  /** Pauses and advances by exactly one frame. */
+  public step(): void {
+    this.pause();
+    this.time += stepSeconds;
+  }
+
+  public seek(time: number): void {
+    this.time = Math.max(0, time);
+  }
+}
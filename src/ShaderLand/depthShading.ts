@@ -0,0 +1,227 @@
+import * as THREE from "three";
+import { ShaderPass } from "three/examples/jsm/postprocessing/ShaderPass";
+import { ParamSchema } from "./params";
+
+export interface DepthParams {
+  depthFit: string;
+  fogMode: string;
+  fogNear: number;
+  fogFar: number;
+  fogDensity: number;
+  fogColor: string;
+  fogStrength: number; // How far fog pulls towards its color at full depth
+  depthView: string;
+}
+
+const fogModes = {
+  None: "none",
+  Linear: "linear",
+  Exponential: "exp",
+  "Exponential²": "exp2",
+};
+
+/** The `fogMode` uniform's value with fog off */
+export const noFogMode = Object.values(fogModes).indexOf("none");
+
+export const depthParamSchema: ParamSchema<DepthParams> = [
+  {
+    key: "fogMode",
+    label: "Fog Curve",
+    type: "select",
+    options: fogModes,
+    folder: "Depth",
+    uniform: "fogMode",
+  },
+  {
+    key: "depthFit",
+    label: "Range",
+    type: "select",
+    options: { Manual: "manual", "Fit to Shapes": "auto" },
+    folder: "Depth",
+  },
+  {
+    key: "fogNear",
+    label: "Near",
+    type: "number",
+    min: 0,
+    max: 100,
+    step: 0.5,
+    folder: "Depth",
+    uniform: "fogNear",
+  },
+  {
+    key: "fogFar",
+    label: "Far",
+    type: "number",
+    min: 1,
+    max: 200,
+    step: 0.5,
+    folder: "Depth",
+    uniform: "fogFar",
+  },
+  {
+    key: "fogDensity",
+    label: "Density",
+    type: "number",
+    min: 0.001,
+    max: 0.5,
+    step: 0.001,
+    folder: "Depth",
+    uniform: "fogDensity",
+  },
+  {
+    key: "fogColor",
+    label: "Fog Color",
+    type: "color",
+    folder: "Depth",
+    uniform: "fogColor",
+  },
+  {
+    key: "fogStrength",
+    label: "Strength",
+    type: "number",
+    min: 0,
+    max: 1,
+    step: 0.01,
+    folder: "Depth",
+    uniform: "fogStrength",
+  },
+  {
+    key: "depthView",
+    label: "Debug View",
+    type: "select",
+    options: { Off: "off", "Depth Buffer": "depth" },
+    folder: "Depth",
+    pass: "depthDebug.view",
+  },
+];
+
+const fitBox = new THREE.Box3();
+const fitSphere = new THREE.Sphere();
+
+/**
+ * Near and far view depths that bracket `object`'s bounding sphere as seen
+ * from `camera`, so depth shading follows the camera as it zooms.
+ */
+export function fitDepthRange(
+  object: THREE.Object3D,
+  camera: THREE.PerspectiveCamera,
+): [number, number] {
+  fitBox.setFromObject(object);
+  if (fitBox.isEmpty()) return [camera.near, camera.far];
+
+  fitBox.getBoundingSphere(fitSphere);
+  const distance = camera.position.distanceTo(fitSphere.center);
+  return [
+    Math.max(distance - fitSphere.radius, 0),
+    distance + fitSphere.radius,
+  ];
+}
+
+/**
+ * Fragment shader declarations for depth shading. Expects `vViewDepth`, the
+ * positive view-space depth, from the vertex shader.
+ */
+export const depthShadingChunk = `
+        uniform int fogMode;
+        uniform float fogNear;
+        uniform float fogFar;
+        uniform float fogDensity;
+        uniform vec3 fogColor;
+        uniform float fogStrength;
+
+        varying float vViewDepth;
+
+        // 0 at the near distance, 1 at the far distance
+        float normalizedDepth() {
+            return clamp((vViewDepth - fogNear) / max(fogFar - fogNear, 0.001), 0.0, 1.0);
+        }
+
+        float fogAmount() {
+            float distance = max(vViewDepth - fogNear, 0.0);
+            if (fogMode == 1) return normalizedDepth();
+            if (fogMode == 2) return 1.0 - exp(-fogDensity * distance);
+            if (fogMode == 3) return 1.0 - exp(-pow(fogDensity * distance, 2.0));
+            return 0.0;
+        }
+
+        vec3 applyDepthFog(vec3 color) {
+            return mix(color, fogColor, fogAmount() * fogStrength);
+        }
+`;
+
+const DepthDebugShader = {
+  uniforms: {
+    tDepth: { value: null },
+    cameraNear: { value: 0.1 },
+    cameraFar: { value: 1000 },
+    rangeNear: { value: 20 },
+    rangeFar: { value: 40 },
+  },
+  vertexShader: `
+    varying vec2 vUv;
+
+    void main() {
+        vUv = uv;
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  fragmentShader: `
+    #include <packing>
+
+    uniform sampler2D tDepth;
+    uniform float cameraNear;
+    uniform float cameraFar;
+    uniform float rangeNear;
+    uniform float rangeFar;
+
+    varying vec2 vUv;
+
+    void main() {
+        float viewZ = -perspectiveDepthToViewZ(texture2D(tDepth, vUv).x, cameraNear, cameraFar);
+        float depth = clamp((viewZ - rangeNear) / max(rangeFar - rangeNear, 0.001), 0.0, 1.0);
+
+        // Near is white; empty background reads as black
+        gl_FragColor = vec4(vec3(1.0 - depth), 1.0);
+    }
+  `,
+};
+
+/**
+ * Replaces the image with the depth buffer, normalized to the depth shading
+ * range. Disabled unless the debug view is selected. Earlier passes may have
+ * swapped buffers, so the owner hands over the depth texture the scene was
+ * rendered into each frame.
+ */
+export class DepthDebugPass extends ShaderPass {
+  public depthTexture: THREE.DepthTexture | null = null;
+  private camera: THREE.PerspectiveCamera;
+
+  constructor(camera: THREE.PerspectiveCamera) {
+    super(DepthDebugShader);
+    this.camera = camera;
+    this.enabled = false;
+  }
+
+  set view(value: string) {
+    this.enabled = value === "depth";
+  }
+
+  public setRange(near: number, far: number): void {
+    this.uniforms.rangeNear.value = near;
+    this.uniforms.rangeFar.value = far;
+  }
+
+  public render(
+    renderer: THREE.WebGLRenderer,
+    writeBuffer: THREE.WebGLRenderTarget,
+    readBuffer: THREE.WebGLRenderTarget,
+    deltaTime: number,
+    maskActive: boolean,
+  ): void {
+    this.uniforms.tDepth.value = this.depthTexture;
+    this.uniforms.cameraNear.value = this.camera.near;
+    this.uniforms.cameraFar.value = this.camera.far;
+    super.render(renderer, writeBuffer, readBuffer, deltaTime, maskActive);
+  }
+}
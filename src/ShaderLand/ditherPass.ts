@@ -0,0 +1,361 @@
+import * as THREE from "three";
+import { ShaderPass } from "three/examples/jsm/postprocessing/ShaderPass";
+import { createBlueNoiseTexture } from "./blueNoise";
+import { ParamSchema } from "./params";
+
+export interface DitherParams {
+  ditherMode: string;
+  ditherQuantize: string;
+  ditherLevels: number;
+  ditherPalette: string;
+  ditherShadow: string;
+  ditherHighlight: string;
+  ditherSize: number;
+  ditherMix: number;
+  ditherDepthScale: number; // Controls how quickly dithering changes with depth
+  ditherContrast: number; // Controls contrast between near/far dithering
+}
+
+const ditherModes = ["bayer2", "bayer4", "bayer8", "blue-noise", "halftone"];
+const quantizeModes = ["one-bit", "grayscale", "palette"];
+
+/** Built-in palettes, ordered dark to light. "custom" ramps between two colors. */
+export const ditherPalettes: { [name: string]: string[] } = {
+  gameboy: ["#0f380f", "#306230", "#8bac0f", "#9bbc0f"],
+  cga: ["#000000", "#aa00aa", "#00aaaa", "#ffffff"],
+  sepia: ["#1b1209", "#5b3b1e", "#a67c52", "#e8d5b0", "#fff8e7"],
+  neon: ["#0b0221", "#4b00a1", "#ff2a6d", "#05d9e8", "#d1f7ff"],
+};
+
+const maxPaletteSize = 16;
+
+export const ditherParamSchema: ParamSchema<DitherParams> = [
+  {
+    key: "ditherMode",
+    label: "Pattern",
+    type: "select",
+    options: {
+      "Bayer 2x2": "bayer2",
+      "Bayer 4x4": "bayer4",
+      "Bayer 8x8": "bayer8",
+      "Blue Noise": "blue-noise",
+      Halftone: "halftone",
+    },
+    folder: "Dither",
+    pass: "dither.mode",
+  },
+  {
+    key: "ditherQuantize",
+    label: "Quantize",
+    type: "select",
+    options: { "1-bit": "one-bit", Grayscale: "grayscale", Palette: "palette" },
+    folder: "Dither",
+    pass: "dither.quantize",
+  },
+  {
+    key: "ditherLevels",
+    label: "Levels",
+    type: "number",
+    min: 2,
+    max: maxPaletteSize,
+    step: 1,
+    folder: "Dither",
+    pass: "dither.levels",
+  },
+  {
+    key: "ditherPalette",
+    label: "Palette",
+    type: "select",
+    options: {
+      "Game Boy": "gameboy",
+      CGA: "cga",
+      Sepia: "sepia",
+      Neon: "neon",
+      Custom: "custom",
+    },
+    folder: "Dither",
+    pass: "dither.palette",
+  },
+  {
+    key: "ditherShadow",
+    label: "Custom Shadow",
+    type: "color",
+    folder: "Dither",
+    pass: "dither.shadow",
+  },
+  {
+    key: "ditherHighlight",
+    label: "Custom Highlight",
+    type: "color",
+    folder: "Dither",
+    pass: "dither.highlight",
+  },
+  {
+    key: "ditherSize",
+    label: "Dither Size",
+    type: "number",
+    min: 1,
+    max: 8,
+    step: 0.5,
+    folder: "Dither",
+    pass: "dither.pixelSize",
+  },
+  {
+    key: "ditherMix",
+    label: "Dither Amount",
+    type: "number",
+    min: 0.0,
+    max: 1.0,
+    step: 0.05,
+    folder: "Dither",
+    pass: "dither.amount",
+  },
+  {
+    key: "ditherDepthScale",
+    label: "Depth Scale",
+    type: "number",
+    min: 10.0,
+    max: 100.0,
+    step: 1.0,
+    folder: "Dither",
+    pass: "dither.depthScale",
+  },
+  {
+    key: "ditherContrast",
+    label: "Depth Contrast",
+    type: "number",
+    min: 0.0,
+    max: 2.0,
+    step: 0.1,
+    folder: "Dither",
+    pass: "dither.depthContrast",
+  },
+];
+
+/** Recursive Bayer matrices, for ordered dithering in any shader */
+export const bayerChunk = `
+    // Thresholds in [0, 1)
+    float bayer2(vec2 a) {
+        a = floor(a);
+        return fract(a.x / 2.0 + a.y * a.y * 0.75);
+    }
+    float bayer4(vec2 a) { return bayer2(0.5 * a) * 0.25 + bayer2(a); }
+    float bayer8(vec2 a) { return bayer4(0.5 * a) * 0.25 + bayer2(a); }
+`;
+
+const DitherShader = {
+  uniforms: {
+    tDiffuse: { value: null },
+    tDepth: { value: null },
+    tBlueNoise: { value: null },
+    blueNoiseSize: { value: 64 },
+    cameraNear: { value: 0.1 },
+    cameraFar: { value: 1000 },
+    mode: { value: 1 },
+    quantize: { value: 0 },
+    levels: { value: 2 },
+    palette: {
+      value: Array.from({ length: maxPaletteSize }, () => new THREE.Color()),
+    },
+    paletteSize: { value: 2 },
+    pixelSize: { value: 1 },
+    amount: { value: 1 },
+    depthScale: { value: 40 },
+    depthContrast: { value: 0.8 },
+  },
+  vertexShader: `
+    varying vec2 vUv;
+
+    void main() {
+        vUv = uv;
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  fragmentShader: `
+    #include <packing>
+
+    #define MAX_PALETTE ${maxPaletteSize}
+
+    uniform sampler2D tDiffuse;
+    uniform sampler2D tDepth;
+    uniform sampler2D tBlueNoise;
+    uniform float blueNoiseSize;
+    uniform float cameraNear;
+    uniform float cameraFar;
+    uniform int mode;
+    uniform int quantize;
+    uniform float levels;
+    uniform vec3 palette[MAX_PALETTE];
+    uniform int paletteSize;
+    uniform float pixelSize;
+    uniform float amount;
+    uniform float depthScale;
+    uniform float depthContrast;
+
+    varying vec2 vUv;
+
+    ${bayerChunk}
+
+    float getThreshold(vec2 coord) {
+        if (mode == 0) return bayer2(coord);
+        if (mode == 1) return bayer4(coord);
+        if (mode == 2) return bayer8(coord);
+        if (mode == 3) return texture2D(tBlueNoise, (coord + 0.5) / blueNoiseSize).r;
+
+        // Clustered-dot halftone on a 45 degree screen
+        vec2 rotated = mat2(0.7071, -0.7071, 0.7071, 0.7071) * coord;
+        vec2 cell = fract(rotated / 6.0) - 0.5;
+        return clamp(length(cell) * 1.4142, 0.0, 1.0);
+    }
+
+    vec3 quantizeColor(vec3 color, float threshold) {
+        float luma = dot(color, vec3(0.299, 0.587, 0.114));
+        if (quantize == 0) return vec3(step(threshold, luma));
+        if (quantize == 1) {
+            float steps = levels - 1.0;
+            return vec3(min(floor(luma * steps + threshold), steps) / steps);
+        }
+
+        float last = float(paletteSize - 1);
+        int index = int(min(floor(luma * last + threshold), last));
+        vec3 result = palette[0];
+        for (int i = 1; i < MAX_PALETTE; i++) {
+            if (i == index) result = palette[i];
+        }
+        return result;
+    }
+
+    void main() {
+        vec4 color = texture2D(tDiffuse, vUv);
+
+        // Enhance depth contrast using the contrast parameter, near = 1
+        float viewZ = -perspectiveDepthToViewZ(texture2D(tDepth, vUv).x, cameraNear, cameraFar);
+        float nearness = 1.0 - clamp(viewZ / depthScale, 0.0, 1.0);
+        float contrastDepth = pow(nearness, 1.0 + depthContrast * 2.0);
+
+        // Make pattern denser with depth, using enhanced contrast
+        float dynamicSize = pixelSize * (1.0 - contrastDepth);
+        vec2 patternCoord = floor(gl_FragCoord.xy / max(dynamicSize, 1.0));
+        float threshold = getThreshold(patternCoord);
+
+        // Enhance dither contrast based on depth
+        threshold = mix(threshold, step(0.5, threshold), contrastDepth);
+
+        vec3 dithered = quantizeColor(color.rgb, threshold);
+        gl_FragColor = vec4(mix(color.rgb, dithered, amount), color.a);
+    }
+  `,
+};
+
+/**
+ * Screen-space ordered dithering with palette quantization. Reads scene depth
+ * from the composer's read buffer, so the composer's render targets must carry
+ * a depth texture.
+ */
+export class DitherPass extends ShaderPass {
+  private camera: THREE.PerspectiveCamera;
+  private blueNoise: THREE.DataTexture;
+  private paletteName = "gameboy";
+  private shadowColor = new THREE.Color(0x000000);
+  private highlightColor = new THREE.Color(0xffffff);
+
+  constructor(camera: THREE.PerspectiveCamera) {
+    super(DitherShader);
+    this.camera = camera;
+    this.blueNoise = createBlueNoiseTexture();
+    this.uniforms.tBlueNoise.value = this.blueNoise;
+    this.uniforms.blueNoiseSize.value = this.blueNoise.image.width;
+    // Cloning the uniforms only copies the array, so each pass needs its
+    // own colors
+    this.uniforms.palette.value = Array.from(
+      { length: maxPaletteSize },
+      () => new THREE.Color(),
+    );
+    this.updatePalette();
+  }
+
+  set mode(value: string) {
+    this.uniforms.mode.value = Math.max(0, ditherModes.indexOf(value));
+  }
+
+  set quantize(value: string) {
+    this.uniforms.quantize.value = Math.max(0, quantizeModes.indexOf(value));
+  }
+
+  set levels(value: number) {
+    this.uniforms.levels.value = Math.round(value);
+    this.updatePalette();
+  }
+
+  set palette(value: string) {
+    this.paletteName = value;
+    this.updatePalette();
+  }
+
+  set shadow(value: string) {
+    this.shadowColor.set(value);
+    this.updatePalette();
+  }
+
+  set highlight(value: string) {
+    this.highlightColor.set(value);
+    this.updatePalette();
+  }
+
+  set pixelSize(value: number) {
+    this.uniforms.pixelSize.value = value;
+  }
+
+  set amount(value: number) {
+    this.uniforms.amount.value = value;
+    this.enabled = value > 0;
+  }
+
+  set depthScale(value: number) {
+    this.uniforms.depthScale.value = value;
+  }
+
+  set depthContrast(value: number) {
+    this.uniforms.depthContrast.value = value;
+  }
+
+  public render(
+    renderer: THREE.WebGLRenderer,
+    writeBuffer: THREE.WebGLRenderTarget,
+    readBuffer: THREE.WebGLRenderTarget,
+    deltaTime: number,
+    maskActive: boolean,
+  ): void {
+    this.uniforms.tDepth.value = readBuffer.depthTexture;
+    this.uniforms.cameraNear.value = this.camera.near;
+    this.uniforms.cameraFar.value = this.camera.far;
+    super.render(renderer, writeBuffer, readBuffer, deltaTime, maskActive);
+  }
+
+  public dispose(): void {
+    this.blueNoise.dispose();
+    super.dispose();
+  }
+
+  private updatePalette(): void {
+    const colors: THREE.Color[] = this.uniforms.palette.value;
+    const builtIn = ditherPalettes[this.paletteName];
+
+    if (builtIn) {
+      builtIn.forEach((color, index) => colors[index].set(color));
+      this.uniforms.paletteSize.value = builtIn.length;
+      return;
+    }
+
+    // Custom palette: a ramp with one entry per level
+    const size = this.uniforms.levels.value;
+    for (let index = 0; index < size; index++) {
+      colors[index].lerpColors(
+        this.shadowColor,
+        this.highlightColor,
+        index / (size - 1),
+      );
+    }
+    this.uniforms.paletteSize.value = size;
+  }
+}
@@ -0,0 +1,6 @@
+import { defineShaderLandElement } from "./ShaderLandElement";
+
+// Script-tag entry: bundles React and registers <shader-land> on load
+defineShaderLandElement();
+
+export * from "./index";
@@ -0,0 +1,130 @@
+import JSZip from "jszip";
+import { FrameSequence, ShaderScene } from "./scene";
+
+export type ExportFormat = "png" | "webm";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  width: number;
+  height: number;
+  fps: number;
+  /** Requested length in seconds; rounded up to whole stripe periods when looping */
+  duration: number;
+  /** Pick a duration the stripe pattern repeats over, holding the spin */
+  seamlessLoop: boolean;
+}
+
+/** Receives the number of frames rendered so far and the total. */
+export type ExportProgress = (rendered: number, total: number) => void;
+
+const webmBitsPerSecond = 12_000_000;
+
+/**
+ * Resolves export options into the exact frames to render. Seamless loops
+ * start at the current clock time and last a whole number of stripe periods,
+ * so the last frame flows into the first.
+ */
+export function frameSequence(
+  scene: ShaderScene,
+  options: ExportOptions,
+): FrameSequence {
+  let duration = options.duration;
+  if (options.seamlessLoop) {
+    const period = scene.stripePeriod();
+    duration = Math.max(1, Math.round(duration / period)) * period;
+  }
+
+  return {
+    width: options.width,
+    height: options.height,
+    fps: options.fps,
+    frameCount: Math.max(1, Math.round(duration * options.fps)),
+    startTime: scene.clock.time,
+    holdSpin: options.seamlessLoop,
+  };
+}
+
+export async function exportAnimation(
+  scene: ShaderScene,
+  options: ExportOptions,
+  onProgress: ExportProgress,
+): Promise<Blob> {
+  const sequence = frameSequence(scene, options);
+  return options.format === "png"
+    ? exportPngSequence(scene, sequence, onProgress)
+    : exportWebm(scene, sequence, onProgress);
+}
+
+async function exportPngSequence(
+  scene: ShaderScene,
+  sequence: FrameSequence,
+  onProgress: ExportProgress,
+): Promise<Blob> {
+  const zip = new JSZip();
+  const digits = String(sequence.frameCount - 1).length;
+
+  await scene.renderFrames(sequence, async (canvas, index) => {
+    const png = await canvasToBlob(canvas);
+    zip.file(`frame_${String(index).padStart(digits, "0")}.png`, png);
+    onProgress(index + 1, sequence.frameCount);
+  });
+
+  return zip.generateAsync({ type: "blob" });
+}
+
+/**
+ * Records through MediaRecorder, which timestamps frames in real time, so
+ * each rendered frame is held on the stream for one frame interval.
+ */
+async function exportWebm(
+  scene: ShaderScene,
+  sequence: FrameSequence,
+  onProgress: ExportProgress,
+): Promise<Blob> {
+  let recorder: MediaRecorder | null = null;
+  let track: CanvasCaptureMediaStreamTrack | null = null;
+  const chunks: Blob[] = [];
+  const frameMs = 1000 / sequence.fps;
+
+  const startRecording = (canvas: HTMLCanvasElement) => {
+    const stream = canvas.captureStream(0);
+    track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    recorder = new MediaRecorder(stream, {
+      mimeType: "video/webm",
+      videoBitsPerSecond: webmBitsPerSecond,
+    });
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+    recorder.start();
+    return track;
+  };
+
+  try {
+    await scene.renderFrames(sequence, async (canvas, index) => {
+      (track ?? startRecording(canvas)).requestFrame();
+      await delay(frameMs);
+      onProgress(index + 1, sequence.frameCount);
+    });
+  } finally {
+    const activeRecorder = recorder as MediaRecorder | null;
+    if (activeRecorder) {
+      await new Promise<void>((resolve) => {
+        activeRecorder.onstop = () => resolve();
+        activeRecorder.stop();
+      });
+    }
+  }
+  return new Blob(chunks, { type: "video/webm" });
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error("Could not encode frame as PNG"));
+    }, "image/png");
+  });
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,118 @@
+import * as THREE from "three";
+
+export interface FrameStats {
+  fps: number;
+  frameMs: number;
+  drawCalls: number;
+  triangles: number;
+  renderScale: number;
+  pixelRatio: number;
+}
+
+/** Weight of each new frame in the smoothed frame time */
+const frameSmoothing = 0.05;
+
+/** Gaps longer than this are stalls (hidden tab, debugger), not frames */
+const maxFrameGapMs = 250;
+
+/** How often the render scale may change, so each change can settle */
+const adjustIntervalMs = 1000;
+
+// Frame time, as a fraction of the budget, that triggers a change
+const slowFrame = 1.2;
+const fastFrame = 1.05;
+
+const scaleDown = 0.85;
+const scaleUp = 1.05;
+
+/**
+ * Lowest display refresh rate assumed, so a scene that renders slowly from
+ * its first frame isn't mistaken for one on a slow display
+ */
+const minRefreshRate = 60;
+
+/**
+ * Measures frame time and picks the fraction of the device pixel ratio to
+ * render at, stepping it down when frames miss the target rate and back up
+ * while they keep it. Frames can't come faster than the display refreshes,
+ * so the target is capped at the refresh rate, estimated from the shortest
+ * gap between frames.
+ */
+export class PerformanceGovernor {
+  public adaptive = true;
+  public targetFps = 60;
+  /** Upper bound on `devicePixelRatio`, which can reach 3+ on phones */
+  public maxPixelRatio = 2;
+  public minScale = 0.5;
+  public renderScale = 1;
+  /** Frame rate the render loop is throttled to, e.g. in low-power mode */
+  public maxFps = Infinity;
+  private frameMs = 1000 / 60;
+  private lastFrame: number | null = null;
+  private lastAdjust = 0;
+  private shortestFrameMs = Infinity;
+
+  public get fps(): number {
+    return 1000 / this.frameMs;
+  }
+
+  public get averageFrameMs(): number {
+    return this.frameMs;
+  }
+
+  public get pixelRatio(): number {
+    const devicePixelRatio = window.devicePixelRatio || 1;
+    return Math.min(devicePixelRatio, this.maxPixelRatio) * this.renderScale;
+  }
+
+  /**
+   * Records a frame shown at `now`, a rAF timestamp. Returns true when the
+   * render scale changed and the canvas needs resizing.
+   */
+  public frame(now: number): boolean {
+    if (this.lastFrame !== null) {
+      const elapsed = now - this.lastFrame;
+      if (elapsed < maxFrameGapMs) {
+        this.frameMs += (elapsed - this.frameMs) * frameSmoothing;
+      }
+      if (elapsed > 0) {
+        this.shortestFrameMs = Math.min(this.shortestFrameMs, elapsed);
+      }
+    }
+    this.lastFrame = now;
+
+    if (!this.adaptive || now - this.lastAdjust < adjustIntervalMs) {
+      return false;
+    }
+    this.lastAdjust = now;
+
+    // Display refresh caps the frame rate, so "fast" means on budget
+    const refreshRate = Math.max(1000 / this.shortestFrameMs, minRefreshRate);
+    const budget = 1000 / Math.min(this.targetFps, this.maxFps, refreshRate);
+    let scale = this.renderScale;
+    if (this.frameMs > budget * slowFrame) scale *= scaleDown;
+    else if (this.frameMs < budget * fastFrame) scale *= scaleUp;
+    scale = THREE.MathUtils.clamp(
+      Math.round(scale * 100) / 100,
+      this.minScale,
+      1,
+    );
+
+    if (scale === this.renderScale) return false;
+    this.renderScale = scale;
+    return true;
+  }
+
+  /** Whether a frame at `now` should be skipped to honour `maxFps`. */
+  public throttled(now: number): boolean {
+    // A millisecond of slack keeps rAF jitter from dropping whole frames
+    return (
+      this.lastFrame !== null && now - this.lastFrame < 1000 / this.maxFps - 1
+    );
+  }
+
+  /** Forgets the previous frame so a stopped loop doesn't count as slow. */
+  public resetTiming(): void {
+    this.lastFrame = null;
+  }
+}
@@ -0,0 +1,20 @@
+export { ShaderLand } from "./ShaderLand";
+export type { ShaderLandProps } from "./ShaderLand";
+export {
+  defineShaderLandElement,
+  ShaderLandElement,
+} from "./ShaderLandElement";
+export { sceneDefinitions } from "./registry";
+export type { SceneDefinition } from "./registry";
+export type { ParamValues, ShaderScene } from "./scene";
+export type { Preset } from "./presets";
+export type {
+  RemoteCommand,
+  RemoteOptions,
+  RemoteReply,
+  RemoteState,
+} from "./remote";
+export type { Timeline } from "./timeline";
+export type { Transition, TransitionKind } from "./transition";
+export { SharedRenderer } from "./sharedRenderer";
+export { useSharedRenderer } from "./useSharedRenderer";
@@ -0,0 +1,323 @@
+import * as THREE from "three";
+import { OrbitControls } from "three/examples/jsm/controls/OrbitControls";
+import { ParamSchema } from "./params";
+
+export interface InteractionParams {
+  interactionMode: string;
+  rippleStrength: number;
+  rippleRadius: number;
+  pulseStrength: number;
+}
+
+export const interactionParamSchema: ParamSchema<InteractionParams> = [
+  {
+    key: "interactionMode",
+    label: "Drag",
+    type: "select",
+    options: { "Orbit Camera": "orbit", "Spin Shapes": "spin" },
+    folder: "Interaction",
+  },
+  {
+    key: "rippleStrength",
+    label: "Ripple",
+    type: "number",
+    min: 0,
+    max: 2,
+    step: 0.05,
+    folder: "Interaction",
+    uniform: "rippleStrength",
+  },
+  {
+    key: "rippleRadius",
+    label: "Ripple Radius",
+    type: "number",
+    min: 0.5,
+    max: 20,
+    step: 0.5,
+    folder: "Interaction",
+    uniform: "rippleRadius",
+  },
+  {
+    key: "pulseStrength",
+    label: "Click Pulse",
+    type: "number",
+    min: 0,
+    max: 5,
+    step: 0.1,
+    folder: "Interaction",
+    uniform: "pulseStrength",
+  },
+];
+
+/** Pointer travel, in CSS pixels, under which a press counts as a click */
+const clickSlop = 5;
+
+/** Radians of spin per CSS pixel dragged */
+const spinPerPixel = 0.01;
+
+// Spin velocity kept per 60fps frame after a drag, and the speed, in
+// radians per second, under which it stops
+const spinDamping = 0.95;
+const minSpinSpeed = 0.01;
+
+/** Fraction of the way hover eases to its target per 60fps frame */
+const hoverEasing = 0.15;
+
+/** Starting `pulseAge`, old enough that no pulse shows */
+const noPulseAge = 100;
+
+/** Uniforms the pointer drives, added to the stripe material. */
+export function pointerUniforms(): { [name: string]: THREE.IUniform } {
+  return {
+    pointerPosition: { value: new THREE.Vector3() },
+    pointerUv: { value: new THREE.Vector2() },
+    pointerAmount: { value: 0 },
+    hoverHighlight: { value: 0 },
+    pulsePosition: { value: new THREE.Vector3() },
+    pulseAge: { value: noPulseAge },
+  };
+}
+
+/**
+ * Fragment shader declarations for pointer effects. Expects `vWorldPosition`
+ * and `time` to be declared before it.
+ */
+export const pointerChunk = `
+        uniform vec3 pointerPosition; // World-space hit under the pointer
+        uniform vec2 pointerUv; // Hit UV, for custom shaders
+        uniform float pointerAmount; // 0 when nothing is hovered, easing to 1
+        uniform float hoverHighlight; // pointerAmount on the hovered mesh only
+        uniform vec3 pulsePosition;
+        uniform float pulseAge; // Seconds since the last click
+        uniform float rippleStrength;
+        uniform float rippleRadius;
+        uniform float pulseStrength;
+
+        // World units per second the pulse ring expands
+        #define PULSE_SPEED 12.0
+
+        // Shifts the stripe coordinate into rings around the pointer
+        float pointerRipple() {
+            float distance = length(vWorldPosition - pointerPosition);
+            float falloff = exp(-distance / rippleRadius);
+            return sin(distance * 2.0 - time * 4.0) * falloff * rippleStrength * pointerAmount;
+        }
+
+        // Brightening from hover and the ring expanding from the last click
+        float pointerGlow() {
+            float distance = length(vWorldPosition - pulsePosition);
+            float ring = exp(-pow(distance - pulseAge * PULSE_SPEED, 2.0) * 0.25);
+            return hoverHighlight * 0.35 + ring * exp(-pulseAge * 2.0) * pulseStrength;
+        }
+`;
+
+/**
+ * Pointer and touch input against the scene's meshes. Hovering highlights a
+ * mesh and ripples its stripes, clicking sends a pulse from the hit, which
+ * brightens the stripes past what bloom picks up, and in "spin" mode
+ * dragging spins `spinGroup` with inertia in place of orbiting the camera.
+ */
+export class PointerInteraction {
+  private element: HTMLElement;
+  private camera: THREE.Camera;
+  private controls: OrbitControls;
+  private spinGroup: THREE.Object3D;
+  private material: THREE.ShaderMaterial;
+  private getMeshes: () => THREE.Mesh[];
+  private getParams: () => InteractionParams;
+  private raycaster = new THREE.Raycaster();
+  /** Pointer in normalized device coordinates, or null when it's away */
+  private pointer: THREE.Vector2 | null = null;
+  private hovered: THREE.Object3D | null = null;
+  private hoverAmount = 0;
+  private pressed: { x: number; y: number; moved: boolean } | null = null;
+  private dragging = false;
+  /** Spin in radians per second about the camera's up and right axes */
+  private spinVelocity = new THREE.Vector2();
+  /** Where and when the drag last moved */
+  private lastMove = { x: 0, y: 0, time: 0 };
+  private lastUpdate: number | null = null;
+  private prepared = new WeakSet<THREE.Mesh>();
+  private dragListeners = new Set<(dragging: boolean) => void>();
+
+  constructor(
+    element: HTMLElement,
+    camera: THREE.Camera,
+    controls: OrbitControls,
+    spinGroup: THREE.Object3D,
+    material: THREE.ShaderMaterial,
+    getMeshes: () => THREE.Mesh[],
+    getParams: () => InteractionParams,
+  ) {
+    this.element = element;
+    this.camera = camera;
+    this.controls = controls;
+    this.spinGroup = spinGroup;
+    this.material = material;
+    this.getMeshes = getMeshes;
+    this.getParams = getParams;
+
+    element.addEventListener("pointermove", this.handlePointerMove);
+    element.addEventListener("pointerdown", this.handlePointerDown);
+    element.addEventListener("pointerup", this.handlePointerUp);
+    element.addEventListener("pointercancel", this.handlePointerUp);
+    element.addEventListener("pointerleave", this.handlePointerLeave);
+  }
+
+  /** Picks the hovered mesh and advances hover, pulse and spin. */
+  public update(now: number): void {
+    const elapsed =
+      this.lastUpdate === null ? 0 : (now - this.lastUpdate) / 1000;
+    this.lastUpdate = now;
+    const { uniforms } = this.material;
+
+    // Orbiting and spinning would fight over the same drags
+    this.controls.enabled = this.getParams().interactionMode === "orbit";
+
+    const hit = this.pointer ? this.pick(this.pointer) : null;
+    this.hovered = hit ? hit.object : null;
+    if (hit) {
+      uniforms.pointerPosition.value.copy(hit.point);
+      if (hit.uv) uniforms.pointerUv.value.copy(hit.uv);
+    }
+    const follow = 1 - Math.pow(1 - hoverEasing, elapsed * 60);
+    this.hoverAmount += ((hit ? 1 : 0) - this.hoverAmount) * follow;
+    uniforms.pointerAmount.value = this.hoverAmount;
+    uniforms.pulseAge.value += elapsed;
+
+    if (!this.dragging && this.spinVelocity.length() > minSpinSpeed) {
+      this.spin(this.spinVelocity.x * elapsed, this.spinVelocity.y * elapsed);
+      this.spinVelocity.multiplyScalar(Math.pow(spinDamping, elapsed * 60));
+    }
+  }
+
+  /**
+   * Calls `listener` with true as a spin drag starts and false as it ends.
+   * Returns a function that removes the listener.
+   */
+  public onDrag(listener: (dragging: boolean) => void): () => void {
+    this.dragListeners.add(listener);
+    return () => this.dragListeners.delete(listener);
+  }
+
+  public dispose(): void {
+    this.dragListeners.clear();
+    this.element.removeEventListener("pointermove", this.handlePointerMove);
+    this.element.removeEventListener("pointerdown", this.handlePointerDown);
+    this.element.removeEventListener("pointerup", this.handlePointerUp);
+    this.element.removeEventListener("pointercancel", this.handlePointerUp);
+    this.element.removeEventListener("pointerleave", this.handlePointerLeave);
+  }
+
+  private pick(pointer: THREE.Vector2): THREE.Intersection | null {
+    const meshes = this.getMeshes();
+    meshes.forEach((mesh) => this.prepare(mesh));
+    this.raycaster.setFromCamera(pointer, this.camera);
+    return this.raycaster.intersectObjects(meshes, false)[0] ?? null;
+  }
+
+  /**
+   * The meshes share one material, so the hover highlight is set per mesh
+   * just before each is drawn.
+   */
+  private prepare(mesh: THREE.Mesh): void {
+    if (this.prepared.has(mesh)) return;
+    this.prepared.add(mesh);
+    mesh.onBeforeRender = () => {
+      const { uniforms } = this.material;
+      uniforms.hoverHighlight.value =
+        mesh === this.hovered ? this.hoverAmount : 0;
+      this.material.uniformsNeedUpdate = true;
+    };
+  }
+
+  /** Turns the group about the camera's axes, so drags follow the pointer. */
+  private spin(aboutUp: number, aboutRight: number): void {
+    const axis = new THREE.Vector3();
+    const rotation = new THREE.Quaternion();
+    axis.setFromMatrixColumn(this.camera.matrixWorld, 1);
+    this.spinGroup.quaternion.premultiply(
+      rotation.setFromAxisAngle(axis, aboutUp),
+    );
+    axis.setFromMatrixColumn(this.camera.matrixWorld, 0);
+    this.spinGroup.quaternion.premultiply(
+      rotation.setFromAxisAngle(axis, aboutRight),
+    );
+  }
+
+  private toDeviceCoordinates(event: PointerEvent): THREE.Vector2 {
+    const rect = this.element.getBoundingClientRect();
+    return new THREE.Vector2(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1,
+    );
+  }
+
+  private handlePointerMove = (event: PointerEvent): void => {
+    this.pointer = this.toDeviceCoordinates(event);
+    if (!this.pressed) return;
+
+    const dx = event.clientX - this.pressed.x;
+    const dy = event.clientY - this.pressed.y;
+    if (Math.hypot(dx, dy) > clickSlop) this.pressed.moved = true;
+    if (!this.dragging) return;
+
+    // Spin by this move, and remember its speed for the inertia
+    const aboutUp = (event.clientX - this.lastMove.x) * spinPerPixel;
+    const aboutRight = (event.clientY - this.lastMove.y) * spinPerPixel;
+    this.spin(aboutUp, aboutRight);
+    const seconds = Math.max(
+      (event.timeStamp - this.lastMove.time) / 1000,
+      0.001,
+    );
+    this.spinVelocity.set(aboutUp / seconds, aboutRight / seconds);
+    this.lastMove = {
+      x: event.clientX,
+      y: event.clientY,
+      time: event.timeStamp,
+    };
+  };
+
+  private handlePointerDown = (event: PointerEvent): void => {
+    if (event.button !== 0) return;
+
+    this.pointer = this.toDeviceCoordinates(event);
+    this.pressed = { x: event.clientX, y: event.clientY, moved: false };
+    if (this.getParams().interactionMode === "spin") {
+      this.dragging = true;
+      this.spinVelocity.set(0, 0);
+      this.lastMove = {
+        x: event.clientX,
+        y: event.clientY,
+        time: event.timeStamp,
+      };
+      this.element.setPointerCapture(event.pointerId);
+      this.dragListeners.forEach((listener) => listener(true));
+    }
+  };
+
+  private handlePointerUp = (event: PointerEvent): void => {
+    const pressed = this.pressed;
+    this.pressed = null;
+    if (this.dragging) {
+      this.dragging = false;
+      // A pause before letting go means the spin had already stopped
+      if (event.timeStamp - this.lastMove.time > 100) {
+        this.spinVelocity.set(0, 0);
+      }
+      this.dragListeners.forEach((listener) => listener(false));
+    }
+    if (!pressed || pressed.moved || event.type === "pointercancel") return;
+
+    const hit = this.pick(this.toDeviceCoordinates(event));
+    if (hit) {
+      this.material.uniforms.pulsePosition.value.copy(hit.point);
+      this.material.uniforms.pulseAge.value = 0;
+    }
+  };
+
+  private handlePointerLeave = (): void => {
+    // Captured drags keep going outside the element
+    if (!this.dragging) this.pointer = null;
+  };
+}
@@ -0,0 +1,99 @@
+import { clampParam, lerpParam, ParamDefinition } from "./params";
+
+type TestParams = {
+  width: number;
+  count: number;
+  color: string;
+  space: string;
+};
+
+const width: ParamDefinition<TestParams> = {
+  key: "width",
+  label: "Width",
+  type: "number",
+  min: 0,
+  max: 2,
+  step: 0.1,
+  folder: "Test",
+};
+
+const count: ParamDefinition<TestParams> = {
+  key: "count",
+  label: "Count",
+  type: "number",
+  min: 1,
+  max: 9,
+  step: 2,
+  folder: "Test",
+};
+
+const color: ParamDefinition<TestParams> = {
+  key: "color",
+  label: "Color",
+  type: "color",
+  folder: "Test",
+};
+
+const space: ParamDefinition<TestParams> = {
+  key: "space",
+  label: "Space",
+  type: "select",
+  options: { View: "view", World: "world" },
+  folder: "Test",
+};
+
+describe("clampParam", () => {
+  it("clamps numbers to the definition's range", () => {
+    expect(clampParam(width, 1.5, 1)).toBe(1.5);
+    expect(clampParam(width, -3, 1)).toBe(0);
+    expect(clampParam(width, 5, 1)).toBe(2);
+  });
+
+  it("falls back for values of the wrong type or not finite", () => {
+    expect(clampParam(width, "1", 1)).toBe(1);
+    expect(clampParam(width, NaN, 1)).toBe(1);
+    expect(clampParam(width, Infinity, 1)).toBe(1);
+  });
+
+  it("takes only #rrggbb colors", () => {
+    expect(clampParam(color, "#A0b0c0", "#000000")).toBe("#A0b0c0");
+    expect(clampParam(color, "red", "#000000")).toBe("#000000");
+    expect(clampParam(color, "#fff", "#000000")).toBe("#000000");
+  });
+
+  it("takes only the select's option values", () => {
+    expect(clampParam(space, "world", "view")).toBe("world");
+    expect(clampParam(space, "World", "view")).toBe("view");
+    expect(clampParam(space, 1, "view")).toBe("view");
+  });
+});
+
+describe("lerpParam", () => {
+  it("blends fractional numbers smoothly", () => {
+    expect(lerpParam(width, 0, 2, 0.25)).toBe(0.5);
+  });
+
+  it("keeps whole-step numbers on a step", () => {
+    expect(lerpParam(count, 1, 9, 0.3)).toBe(3);
+    expect(lerpParam(count, 1, 9, 0.4)).toBe(5);
+    expect(lerpParam(count, 1, 9, 1)).toBe(9);
+  });
+
+  it("blends colors per channel", () => {
+    expect(lerpParam(color, "#000000", "#ff8040", 0)).toBe("#000000");
+    expect(lerpParam(color, "#000000", "#ff8040", 0.5)).toBe("#804020");
+    expect(lerpParam(color, "#000000", "#ff8040", 1)).toBe("#ff8040");
+  });
+
+  it("clamps the blend to its ends", () => {
+    expect(lerpParam(color, "#204060", "#ff8040", -1)).toBe("#204060");
+    expect(lerpParam(color, "#204060", "#ff8040", 2)).toBe("#ff8040");
+    expect(lerpParam(width, 0, 2, 1.5)).toBe(2);
+    expect(lerpParam(space, "view", "world", 2)).toBe("world");
+  });
+
+  it("switches selects only once the blend is done", () => {
+    expect(lerpParam(space, "view", "world", 0.99)).toBe("view");
+    expect(lerpParam(space, "view", "world", 1)).toBe("world");
+  });
+});
@@ -0,0 +1,127 @@
+import * as THREE from "three";
+
+interface ParamDefinitionBase<P> {
+  key: Extract<keyof P, string>;
+  label: string;
+  /** GUI folder the control is placed in */
+  folder: string;
+  /** Stripe material uniform that mirrors the value */
+  uniform?: string;
+  /** Post-processing pass property that mirrors the value, as "pass.property" */
+  pass?: string;
+  /** Whether changing the value rebuilds the torus geometry */
+  rebuildsGeometry?: boolean;
+  /** Whether changing the value resizes the render targets */
+  resizes?: boolean;
+}
+
+export interface NumberParamDefinition<P> extends ParamDefinitionBase<P> {
+  type: "number";
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface ColorParamDefinition<P> extends ParamDefinitionBase<P> {
+  type: "color";
+}
+
+export interface SelectParamDefinition<P> extends ParamDefinitionBase<P> {
+  type: "select";
+  /** Option values keyed by their GUI label */
+  options: { [label: string]: string };
+}
+
+export type ParamDefinition<P> =
+  | NumberParamDefinition<P>
+  | ColorParamDefinition<P>
+  | SelectParamDefinition<P>;
+
+export type ParamSchema<P> = ParamDefinition<P>[];
+
+const colorPattern = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Coerces `value` into the range and type the definition allows, returning
+ * `fallback` when it can't be used at all.
+ */
+export function clampParam<P>(
+  definition: ParamDefinition<P>,
+  value: unknown,
+  fallback: number | string,
+): number | string {
+  if (definition.type === "color") {
+    return typeof value === "string" && colorPattern.test(value)
+      ? value
+      : fallback;
+  }
+  if (definition.type === "select") {
+    return typeof value === "string" &&
+      Object.values(definition.options).includes(value)
+      ? value
+      : fallback;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) return fallback;
+  return THREE.MathUtils.clamp(value, definition.min, definition.max);
+}
+
+const colorA = new THREE.Color();
+const colorB = new THREE.Color();
+
+/**
+ * The value `t` of the way from `from` to `to`, with `t` clamped to [0, 1].
+ * Numbers blend, and so do colors, per channel of their hex values; numbers
+ * with whole steps, such as counts, stay on a step. Selects switch at the end.
+ */
+export function lerpParam<P>(
+  definition: ParamDefinition<P>,
+  from: number | string,
+  to: number | string,
+  t: number,
+): number | string {
+  const amount = THREE.MathUtils.clamp(t, 0, 1);
+  if (definition.type === "number") {
+    const value = THREE.MathUtils.lerp(from as number, to as number, amount);
+    const { min, step } = definition;
+    return step >= 1 ? min + Math.round((value - min) / step) * step : value;
+  }
+  if (definition.type === "color") {
+    colorA.set(from as string).convertLinearToSRGB();
+    colorB.set(to as string).convertLinearToSRGB();
+    colorA.lerp(colorB, amount).convertSRGBToLinear();
+    return `#${colorA.getHexString()}`;
+  }
+  return amount < 1 ? from : to;
+}
+
+/** The form a param takes in its uniform: selects become their option index. */
+export function uniformValue<P>(
+  definition: ParamDefinition<P>,
+  value: unknown,
+): unknown {
+  if (definition.type !== "select") return value;
+  return Math.max(
+    0,
+    Object.values(definition.options).indexOf(value as string),
+  );
+}
+
+/** Builds the initial `ShaderMaterial` uniforms for every uniform-bound param. */
+export function uniformsFromSchema<P>(
+  schema: ParamSchema<P>,
+  params: P,
+): { [uniform: string]: THREE.IUniform } {
+  const uniforms: { [uniform: string]: THREE.IUniform } = {};
+  for (const definition of schema) {
+    if (!definition.uniform) continue;
+
+    const value = params[definition.key];
+    uniforms[definition.uniform] = {
+      value:
+        definition.type === "color"
+          ? new THREE.Color(value as unknown as string)
+          : uniformValue(definition, value),
+    };
+  }
+  return uniforms;
+}
@@ -0,0 +1,153 @@
+import { ParamSchema } from "./params";
+import {
+  PRESET_FORMAT,
+  PRESET_VERSION,
+  PresetValidationError,
+  validatePresetFile,
+} from "./presets";
+import { ParamValues } from "./scene";
+
+const schema: ParamSchema<ParamValues> = [
+  {
+    key: "speed",
+    label: "Speed",
+    type: "number",
+    min: 0,
+    max: 10,
+    step: 0.1,
+    folder: "Test",
+    uniform: "speed",
+  },
+  {
+    key: "segments",
+    label: "Segments",
+    type: "number",
+    min: 3,
+    max: 64,
+    step: 1,
+    folder: "Test",
+    rebuildsGeometry: true,
+  },
+  {
+    key: "tint",
+    label: "Tint",
+    type: "color",
+    folder: "Test",
+    uniform: "tint",
+  },
+  {
+    key: "space",
+    label: "Space",
+    type: "select",
+    options: { View: "view", World: "world" },
+    folder: "Test",
+    uniform: "space",
+  },
+];
+
+function presetFile(overrides: Record<string, unknown> = {}) {
+  return {
+    format: PRESET_FORMAT,
+    version: PRESET_VERSION,
+    scene: "torus",
+    name: "Calm",
+    params: { speed: 2, tint: "#336699", space: "world" },
+    ...overrides,
+  };
+}
+
+function validationMessage(data: unknown): string {
+  try {
+    validatePresetFile(data, "torus", schema);
+  } catch (error) {
+    expect(error).toBeInstanceOf(PresetValidationError);
+    return (error as Error).message;
+  }
+  throw new Error("Expected the preset to be rejected");
+}
+
+describe("validatePresetFile", () => {
+  it("accepts a preset that matches the schema", () => {
+    const preset = validatePresetFile(
+      presetFile({
+        audioRoutes: [
+          {
+            feature: "bass",
+            target: "speed",
+            gain: 1,
+            smoothing: 0.5,
+            min: 0,
+            max: 4,
+          },
+        ],
+      }),
+      "torus",
+      schema,
+    );
+
+    expect(preset.name).toBe("Calm");
+    expect(preset.params).toEqual({
+      speed: 2,
+      tint: "#336699",
+      space: "world",
+    });
+    expect(preset.audioRoutes).toHaveLength(1);
+  });
+
+  it("rejects data that isn't a preset for this scene", () => {
+    expect(validationMessage([])).toBe("Preset must be a JSON object.");
+    expect(validationMessage(presetFile({ format: "other" }))).toMatch(
+      /^Not a ShaderLand preset/,
+    );
+    expect(validationMessage(presetFile({ version: undefined }))).toBe(
+      "Preset is missing its version number.",
+    );
+    expect(
+      validationMessage(presetFile({ version: PRESET_VERSION + 1 })),
+    ).toMatch(/newer than supported/);
+    expect(validationMessage(presetFile({ scene: "plasma" }))).toBe(
+      'Preset is for scene "plasma", not "torus".',
+    );
+  });
+
+  it("reports every bad param in one error", () => {
+    const message = validationMessage(
+      presetFile({
+        name: " ",
+        params: {
+          speed: 11,
+          segments: "many",
+          tint: "blue",
+          space: "screen",
+          glow: 1,
+        },
+      }),
+    );
+
+    expect(message).toBe(
+      "Invalid preset: name must be a non-empty string; " +
+        '"speed" must be between 0 and 10; ' +
+        '"segments" must be a finite number; ' +
+        '"tint" must be a #rrggbb color; ' +
+        '"space" must be one of "view", "world"; ' +
+        'unknown parameter "glow".',
+    );
+  });
+
+  it("only routes audio to params the scene can modulate", () => {
+    const route = { feature: "bass", gain: 1, smoothing: 0, min: 0, max: 1 };
+    const message = validationMessage(
+      presetFile({
+        audioRoutes: [
+          { ...route, target: "segments" },
+          { ...route, target: "rotation", feature: "hum" },
+        ],
+      }),
+    );
+
+    expect(message).toBe(
+      'Invalid preset: audio route target "segments" can\'t be modulated; ' +
+        'unknown audio feature "hum".',
+    );
+  });
+});
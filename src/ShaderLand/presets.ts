@@ -0,0 +1,280 @@
+import { AudioRoute, audioRouteTargets, checkAudioRoute } from "./audioRoutes";
+import { downloadBlob } from "./download";
+import { ParamDefinition, ParamSchema } from "./params";
+import { ParamValues, ShaderScene } from "./scene";
+
+export const PRESET_FORMAT = "shaderland-preset";
+export const PRESET_VERSION = 1;
+
+export interface Preset {
+  name: string;
+  params: ParamValues;
+  /** Left out by presets that keep whatever audio routing is active */
+  audioRoutes?: AudioRoute[];
+}
+
+/** Versioned form of a preset, used for storage, JSON files and links. */
+export interface PresetFile extends Preset {
+  format: typeof PRESET_FORMAT;
+  version: number;
+  scene: string;
+}
+
+export class PresetValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PresetValidationError";
+  }
+}
+
+const storagePrefix = "shaderland:presets:";
+const hashPrefix = "#preset=";
+const colorPattern = /^#[0-9a-f]{6}$/i;
+
+/** Applies `preset`, blending its params in over `seconds` if given. */
+export function applyPreset(
+  scene: ShaderScene,
+  preset: Preset,
+  seconds = 0,
+): void {
+  scene.tweenParams(preset.params, seconds);
+  if (preset.audioRoutes) scene.setAudioRoutes(preset.audioRoutes);
+}
+
+export function toPresetFile(sceneId: string, preset: Preset): PresetFile {
+  return {
+    format: PRESET_FORMAT,
+    version: PRESET_VERSION,
+    scene: sceneId,
+    name: preset.name,
+    params: { ...preset.params },
+    ...(preset.audioRoutes && {
+      audioRoutes: preset.audioRoutes.map((route) => ({ ...route })),
+    }),
+  };
+}
+
+/**
+ * Checks untrusted preset data against the param schema of the scene it will
+ * be applied to. Every problem is reported in a single error so hand-edited
+ * files can be fixed in one go; parameters missing from the preset keep their
+ * current value.
+ */
+export function validatePresetFile(
+  data: unknown,
+  sceneId: string,
+  schema: ParamSchema<ParamValues>,
+): PresetFile {
+  if (!isRecord(data)) {
+    throw new PresetValidationError("Preset must be a JSON object.");
+  }
+  if (data.format !== PRESET_FORMAT) {
+    throw new PresetValidationError(
+      `Not a ShaderLand preset (expected "format": "${PRESET_FORMAT}").`,
+    );
+  }
+  if (typeof data.version !== "number") {
+    throw new PresetValidationError("Preset is missing its version number.");
+  }
+  if (data.version > PRESET_VERSION) {
+    throw new PresetValidationError(
+      `Preset version ${data.version} is newer than supported version ${PRESET_VERSION}.`,
+    );
+  }
+  if (data.scene !== sceneId) {
+    throw new PresetValidationError(
+      `Preset is for scene "${String(data.scene)}", not "${sceneId}".`,
+    );
+  }
+
+  const problems: string[] = [];
+  if (typeof data.name !== "string" || data.name.trim() === "") {
+    problems.push("name must be a non-empty string");
+  }
+  if (!isRecord(data.params)) {
+    problems.push("params must be an object");
+  } else {
+    for (const [key, value] of Object.entries(data.params)) {
+      const definition = schema.find((candidate) => candidate.key === key);
+      const problem = definition
+        ? checkParam(definition, value)
+        : `unknown parameter "${key}"`;
+      if (problem) problems.push(problem);
+    }
+  }
+  if (data.audioRoutes !== undefined) {
+    if (!Array.isArray(data.audioRoutes)) {
+      problems.push("audioRoutes must be an array");
+    } else {
+      const targets = audioRouteTargets(schema).map((target) => target.key);
+      for (const route of data.audioRoutes) {
+        const problem = checkAudioRoute(route, targets);
+        if (problem) problems.push(problem);
+      }
+    }
+  }
+  if (problems.length > 0) {
+    throw new PresetValidationError(`Invalid preset: ${problems.join("; ")}.`);
+  }
+
+  return toPresetFile(sceneId, {
+    name: data.name as string,
+    params: data.params as ParamValues,
+    audioRoutes: data.audioRoutes as AudioRoute[] | undefined,
+  });
+}
+
+export function loadSavedPresets(
+  sceneId: string,
+  schema: ParamSchema<ParamValues>,
+): PresetFile[] {
+  const raw = window.localStorage.getItem(storagePrefix + sceneId);
+  if (!raw) return [];
+
+  let stored: unknown;
+  try {
+    stored = JSON.parse(raw);
+  } catch {
+    console.warn(`Discarding unreadable saved presets for "${sceneId}"`);
+    return [];
+  }
+  if (!Array.isArray(stored)) return [];
+
+  const presets: PresetFile[] = [];
+  for (const entry of stored) {
+    try {
+      presets.push(validatePresetFile(entry, sceneId, schema));
+    } catch (error) {
+      console.warn("Skipping saved preset:", (error as Error).message);
+    }
+  }
+  return presets;
+}
+
+/** Saves `preset`, replacing any saved preset with the same name. */
+export function savePreset(
+  sceneId: string,
+  preset: Preset,
+  schema: ParamSchema<ParamValues>,
+): PresetFile[] {
+  const presets = loadSavedPresets(sceneId, schema).filter(
+    (saved) => saved.name !== preset.name,
+  );
+  presets.push(toPresetFile(sceneId, preset));
+  writeSavedPresets(sceneId, presets);
+  return presets;
+}
+
+export function deletePreset(
+  sceneId: string,
+  name: string,
+  schema: ParamSchema<ParamValues>,
+): PresetFile[] {
+  const presets = loadSavedPresets(sceneId, schema).filter(
+    (saved) => saved.name !== name,
+  );
+  writeSavedPresets(sceneId, presets);
+  return presets;
+}
+
+export function exportPreset(sceneId: string, preset: Preset): void {
+  const json = JSON.stringify(toPresetFile(sceneId, preset), null, 2);
+  downloadBlob(
+    new Blob([json], { type: "application/json" }),
+    `${sceneId}-${slugify(preset.name)}.json`,
+  );
+}
+
+export async function importPreset(
+  file: File,
+  sceneId: string,
+  schema: ParamSchema<ParamValues>,
+): Promise<PresetFile> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new PresetValidationError(`${file.name} is not valid JSON.`);
+  }
+  return validatePresetFile(data, sceneId, schema);
+}
+
+export function presetHash(sceneId: string, preset: Preset): string {
+  const json = JSON.stringify(toPresetFile(sceneId, preset));
+  return hashPrefix + encodeBase64Url(json);
+}
+
+/**
+ * Reads a preset from a `#preset=` location hash. Returns null when the hash
+ * holds no preset and throws when it holds one that can't be used.
+ */
+export function presetFromHash(
+  hash: string,
+  sceneId: string,
+  schema: ParamSchema<ParamValues>,
+): PresetFile | null {
+  if (!hash.startsWith(hashPrefix)) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(decodeBase64Url(hash.slice(hashPrefix.length)));
+  } catch {
+    throw new PresetValidationError("The preset in this link is corrupted.");
+  }
+  return validatePresetFile(data, sceneId, schema);
+}
+
+function writeSavedPresets(sceneId: string, presets: PresetFile[]): void {
+  window.localStorage.setItem(storagePrefix + sceneId, JSON.stringify(presets));
+}
+
+function checkParam(
+  definition: ParamDefinition<ParamValues>,
+  value: unknown,
+): string | null {
+  const { key } = definition;
+  if (definition.type === "number") {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return `"${key}" must be a finite number`;
+    }
+    if (value < definition.min || value > definition.max) {
+      return `"${key}" must be between ${definition.min} and ${definition.max}`;
+    }
+  } else if (definition.type === "color") {
+    if (typeof value !== "string" || !colorPattern.test(value)) {
+      return `"${key}" must be a #rrggbb color`;
+    }
+  } else {
+    const options = Object.values(definition.options);
+    if (typeof value !== "string" || !options.includes(value)) {
+      return `"${key}" must be one of ${options
+        .map((option) => `"${option}"`)
+        .join(", ")}`;
+    }
+  }
+  return null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-") || "preset";
+}
+
+function encodeBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function decodeBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
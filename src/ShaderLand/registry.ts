@@ -0,0 +1,62 @@
+import { Preset } from "./presets";
+import { SceneOptions, ShaderScene } from "./scene";
+import { BloomStripesScene, bloomStripesPresets } from "./scene_bloomstripes";
+import { DitherShaderScene, ditherShaderPresets } from "./scene_dithershader";
+
+export interface SceneDefinition {
+  id: string;
+  name: string;
+  create: (container: HTMLDivElement, options?: SceneOptions) => ShaderScene;
+  presets: Preset[];
+}
+
+export const sceneDefinitions: SceneDefinition[] = [
+  {
+    id: "bloom-stripes",
+    name: "Bloom Stripes",
+    create: (container, options) => new BloomStripesScene(container, options),
+    presets: bloomStripesPresets,
+  },
+  {
+    id: "dither",
+    name: "Dither",
+    create: (container, options) => new DitherShaderScene(container, options),
+    presets: ditherShaderPresets,
+  },
+];
+
+export const defaultSceneId = sceneDefinitions[0].id;
+
+const sceneHashPattern = /^#\/scenes\/([\w-]+)/;
+
+export function getSceneDefinition(id: string): SceneDefinition | undefined {
+  return sceneDefinitions.find((definition) => definition.id === id);
+}
+
+/**
+ * Resolves the scene id from `?scene=<id>` or `#/scenes/<id>`, falling back
+ * to the default scene when neither names a registered scene.
+ */
+export function sceneIdFromLocation(location: Location): string {
+  const hashMatch = location.hash.match(sceneHashPattern);
+  const candidates = [
+    hashMatch ? hashMatch[1] : null,
+    new URLSearchParams(location.search).get("scene"),
+  ];
+
+  for (const id of candidates) {
+    if (id && getSceneDefinition(id)) return id;
+  }
+  return defaultSceneId;
+}
+
+/**
+ * Builds the URL that selects `id`, keeping the rest of the query. The hash is
+ * dropped since it describes the previous scene (its route or preset).
+ */
+export function sceneUrl(location: Location, id: string): string {
+  const url = new URL(location.href);
+  url.searchParams.set("scene", id);
+  url.hash = "";
+  return url.toString();
+}
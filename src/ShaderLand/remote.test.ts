@@ -0,0 +1,72 @@
+import {
+  parseRemoteCommand,
+  REMOTE_PROTOCOL,
+  REMOTE_VERSION,
+  RemoteProtocolError,
+} from "./remote";
+
+function command(fields: Record<string, unknown>) {
+  return { protocol: REMOTE_PROTOCOL, version: REMOTE_VERSION, ...fields };
+}
+
+function protocolMessage(data: unknown): string {
+  try {
+    parseRemoteCommand(data);
+  } catch (error) {
+    expect(error).toBeInstanceOf(RemoteProtocolError);
+    return (error as Error).message;
+  }
+  throw new Error("Expected the command to be rejected");
+}
+
+describe("parseRemoteCommand", () => {
+  it("reads well-formed commands", () => {
+    const setParams = command({
+      type: "setParams",
+      id: "controller-1",
+      params: { speed: 2 },
+      seconds: 1.5,
+    });
+    const seek = command({ type: "seek", id: 7, time: 12 });
+
+    expect(parseRemoteCommand(setParams)).toEqual(setParams);
+    expect(parseRemoteCommand(seek)).toEqual(seek);
+    expect(parseRemoteCommand(command({ type: "play" }))).not.toBeNull();
+  });
+
+  it("ignores other protocols and replies from other scenes", () => {
+    expect(parseRemoteCommand("play")).toBeNull();
+    expect(parseRemoteCommand({ protocol: "other", type: "play" })).toBeNull();
+    expect(parseRemoteCommand(command({ type: "state" }))).toBeNull();
+    expect(parseRemoteCommand(command({ type: "error" }))).toBeNull();
+  });
+
+  it("rejects unknown commands and versions", () => {
+    expect(protocolMessage(command({ type: "explode" }))).toBe(
+      'Unknown command "explode".',
+    );
+    expect(
+      protocolMessage(command({ type: "play", version: REMOTE_VERSION + 1 })),
+    ).toMatch(/^Unsupported protocol version/);
+    expect(protocolMessage(command({ type: "play", version: "1" }))).toMatch(
+      /^Unsupported protocol version/,
+    );
+  });
+
+  it("reports every bad field in one error", () => {
+    expect(
+      protocolMessage(
+        command({ type: "setParams", id: {}, seconds: "2", params: [] }),
+      ),
+    ).toBe(
+      'Invalid "setParams" command: id must be a string or number; ' +
+        "seconds must be a number; params must be an object.",
+    );
+    expect(protocolMessage(command({ type: "applyPreset" }))).toBe(
+      'Invalid "applyPreset" command: name must be a string.',
+    );
+    expect(protocolMessage(command({ type: "seek", time: NaN }))).toBe(
+      'Invalid "seek" command: time must be a number.',
+    );
+  });
+});
@@ -0,0 +1,463 @@
+import { ParamDefinition } from "./params";
+import { applyPreset, Preset } from "./presets";
+import { ParamValues, ShaderScene } from "./scene";
+
+export const REMOTE_PROTOCOL = "shaderland-remote";
+export const REMOTE_VERSION = 1;
+
+export const defaultRemoteChannel = "shaderland";
+
+/** Delay before a dropped relay connection is retried */
+const reconnectMs = 2000;
+
+/** How many command ids are remembered to drop copies arriving later */
+const seenIdLimit = 64;
+
+/** Commands a controller sends to a scene. */
+export type RemoteCommand =
+  | { type: "describe" }
+  | { type: "getState" }
+  | { type: "setParams"; params: ParamValues; seconds?: number }
+  | { type: "applyPreset"; name: string; seconds?: number }
+  | { type: "play" }
+  | { type: "pause" }
+  | { type: "seek"; time: number }
+  | { type: "subscribe" }
+  | { type: "unsubscribe" };
+
+export interface RemoteState {
+  sceneId: string;
+  params: ParamValues;
+  playing: boolean;
+  /** Scene time in seconds */
+  time: number;
+  speed: number;
+}
+
+/** Replies a scene sends, to the controller that asked or to subscribers. */
+export type RemoteReply =
+  | {
+      type: "description";
+      sceneId: string;
+      params: ParamDefinition<ParamValues>[];
+      presets: string[];
+    }
+  | { type: "state"; state: RemoteState }
+  | { type: "error"; message: string };
+
+interface RemoteEnvelope {
+  protocol: typeof REMOTE_PROTOCOL;
+  version: number;
+  /**
+   * Copied onto the reply, to pair it with its command. A command sent over
+   * several transports at once keeps its id, so the copies run only once.
+   */
+  id?: string | number;
+}
+
+export type RemoteCommandMessage = RemoteEnvelope & RemoteCommand;
+export type RemoteReplyMessage = RemoteEnvelope & RemoteReply;
+
+/** Somewhere replies can be sent: a window, a channel or a relay. */
+export interface RemotePeer {
+  send(message: RemoteReplyMessage): void;
+}
+
+/** Carries commands in and replies out over one kind of connection. */
+export interface RemoteTransport {
+  /** Calls `listener` with every incoming message and the peer to answer. */
+  listen(listener: (data: unknown, peer: RemotePeer) => void): void;
+  close(): void;
+}
+
+export interface RemoteOptions {
+  /** BroadcastChannel to listen on, or null for none. Defaults to "shaderland". */
+  channel?: string | null;
+  /**
+   * Origins whose `postMessage` commands are obeyed, "*" for any. Defaults
+   * to this page's origin; an empty list ignores `postMessage`.
+   */
+  origins?: string[];
+  /** WebSocket relay to connect to, e.g. "ws://localhost:8787" */
+  relayUrl?: string;
+}
+
+export class RemoteProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RemoteProtocolError";
+  }
+}
+
+const commandTypes: RemoteCommand["type"][] = [
+  "describe",
+  "getState",
+  "setParams",
+  "applyPreset",
+  "play",
+  "pause",
+  "seek",
+  "subscribe",
+  "unsubscribe",
+];
+
+/**
+ * Reads an untrusted message as a command. Messages of other protocols and
+ * replies from other scenes sharing the transport give null, to be ignored;
+ * malformed commands throw.
+ */
+export function parseRemoteCommand(data: unknown): RemoteCommandMessage | null {
+  if (!isRecord(data) || data.protocol !== REMOTE_PROTOCOL) return null;
+  if (!commandTypes.includes(data.type as RemoteCommand["type"])) {
+    if (["description", "state", "error"].includes(data.type as string)) {
+      return null;
+    }
+    throw new RemoteProtocolError(`Unknown command "${String(data.type)}".`);
+  }
+  if (typeof data.version !== "number" || data.version > REMOTE_VERSION) {
+    throw new RemoteProtocolError(
+      `Unsupported protocol version ${String(data.version)} (supported: ${REMOTE_VERSION}).`,
+    );
+  }
+
+  const problems: string[] = [];
+  if (data.id !== undefined && !["string", "number"].includes(typeof data.id)) {
+    problems.push("id must be a string or number");
+  }
+  if (data.seconds !== undefined && !isFiniteNumber(data.seconds)) {
+    problems.push("seconds must be a number");
+  }
+  if (data.type === "setParams" && !isRecord(data.params)) {
+    problems.push("params must be an object");
+  }
+  if (data.type === "applyPreset" && typeof data.name !== "string") {
+    problems.push("name must be a string");
+  }
+  if (data.type === "seek" && !isFiniteNumber(data.time)) {
+    problems.push("time must be a number");
+  }
+  if (problems.length > 0) {
+    throw new RemoteProtocolError(
+      `Invalid "${data.type}" command: ${problems.join("; ")}.`,
+    );
+  }
+  return data as unknown as RemoteCommandMessage;
+}
+
+/**
+ * Obeys remote commands on behalf of whichever scene is attached, and keeps
+ * subscribed peers up to date with its state. The transports outlive the
+ * scenes, so controllers stay connected across scene changes.
+ */
+export class RemoteControl {
+  private transports: RemoteTransport[];
+  private subscribers = new Set<RemotePeer>();
+  /** Ids of recent commands, oldest first */
+  private seenIds: (string | number)[] = [];
+  private target: {
+    scene: ShaderScene;
+    sceneId: string;
+    presets: Preset[];
+    stopListening: () => void;
+  } | null = null;
+
+  constructor(transports: RemoteTransport[]) {
+    this.transports = transports;
+    for (const transport of transports) transport.listen(this.handleMessage);
+  }
+
+  /** Takes commands for `scene` from now on. */
+  public attach(scene: ShaderScene, sceneId: string, presets: Preset[]): void {
+    this.detach();
+    // GUI edits are changes too
+    const stopListening = scene.onParamsEdited(() => this.publish());
+    this.target = { scene, sceneId, presets, stopListening };
+    this.publish();
+  }
+
+  public detach(): void {
+    this.target?.stopListening();
+    this.target = null;
+  }
+
+  public dispose(): void {
+    this.detach();
+    this.subscribers.clear();
+    for (const transport of this.transports) transport.close();
+  }
+
+  private handleMessage = (data: unknown, peer: RemotePeer): void => {
+    let command: RemoteCommandMessage | null = null;
+    try {
+      command = parseRemoteCommand(data);
+      if (command && !this.isRepeat(command)) this.run(command, peer);
+    } catch (error) {
+      this.reply(peer, command?.id ?? idOf(data), {
+        type: "error",
+        message: (error as Error).message,
+      });
+    }
+  };
+
+  /** Whether a command with the same id already arrived, on any transport. */
+  private isRepeat(command: RemoteCommandMessage): boolean {
+    if (command.id === undefined) return false;
+    if (this.seenIds.includes(command.id)) return true;
+    this.seenIds.push(command.id);
+    if (this.seenIds.length > seenIdLimit) this.seenIds.shift();
+    return false;
+  }
+
+  private run(command: RemoteCommandMessage, peer: RemotePeer): void {
+    if (command.type === "subscribe") {
+      this.subscribers.add(peer);
+      // The next scene to attach sends its state
+      if (!this.target) return;
+    } else if (command.type === "unsubscribe") {
+      this.subscribers.delete(peer);
+      return;
+    }
+
+    if (!this.target) throw new RemoteProtocolError("No scene is showing.");
+    const { scene, sceneId, presets } = this.target;
+
+    switch (command.type) {
+      case "describe":
+        this.reply(peer, command.id, {
+          type: "description",
+          sceneId,
+          params: scene.getParamSchema(),
+          presets: presets.map((preset) => preset.name),
+        });
+        return;
+      case "getState":
+      case "subscribe":
+        this.reply(peer, command.id, { type: "state", state: this.state() });
+        return;
+      case "setParams":
+        scene.tweenParams(command.params, command.seconds ?? 0);
+        break;
+      case "applyPreset": {
+        const preset = presets.find(
+          (candidate) => candidate.name === command.name,
+        );
+        if (!preset) {
+          throw new RemoteProtocolError(
+            `Scene "${sceneId}" has no preset "${command.name}".`,
+          );
+        }
+        applyPreset(scene, preset, command.seconds ?? 0);
+        break;
+      }
+      case "play":
+        scene.clock.play();
+        break;
+      case "pause":
+        scene.clock.pause();
+        break;
+      case "seek":
+        scene.clock.seek(command.time);
+        break;
+    }
+
+    // Acknowledge changes with the new state, which subscribers get anyway
+    if (!this.subscribers.has(peer)) {
+      this.reply(peer, command.id, { type: "state", state: this.state() });
+    }
+    this.publish();
+  }
+
+  private state(): RemoteState {
+    const { scene, sceneId } = this.target!;
+    return {
+      sceneId,
+      params: scene.getParams(),
+      playing: scene.clock.playing,
+      time: scene.clock.time,
+      speed: scene.clock.speed,
+    };
+  }
+
+  private publish(): void {
+    if (!this.target) return;
+    const state = this.state();
+    this.subscribers.forEach((peer) =>
+      this.reply(peer, undefined, { type: "state", state }),
+    );
+  }
+
+  private reply(
+    peer: RemotePeer,
+    id: string | number | undefined,
+    reply: RemoteReply,
+  ): void {
+    peer.send({
+      protocol: REMOTE_PROTOCOL,
+      version: REMOTE_VERSION,
+      ...(id !== undefined && { id }),
+      ...reply,
+    });
+  }
+}
+
+/** Other tabs and windows of the same origin, on a named channel. */
+export class BroadcastChannelTransport implements RemoteTransport {
+  private channel: BroadcastChannel;
+  private peer: RemotePeer;
+
+  constructor(name: string) {
+    this.channel = new BroadcastChannel(name);
+    this.peer = { send: (message) => this.channel.postMessage(message) };
+  }
+
+  public listen(listener: (data: unknown, peer: RemotePeer) => void): void {
+    this.channel.onmessage = (event) => listener(event.data, this.peer);
+  }
+
+  public close(): void {
+    this.channel.close();
+  }
+}
+
+/** Pages embedding this one in a frame, or windows it was opened from. */
+export class WindowMessageTransport implements RemoteTransport {
+  private origins: string[];
+  private peers = new WeakMap<MessageEventSource, RemotePeer>();
+  private listener: ((event: MessageEvent) => void) | null = null;
+
+  constructor(origins: string[]) {
+    this.origins = origins;
+  }
+
+  public listen(listener: (data: unknown, peer: RemotePeer) => void): void {
+    this.listener = (event: MessageEvent) => {
+      if (!event.source) return;
+      if (!this.origins.includes("*") && !this.origins.includes(event.origin)) {
+        return;
+      }
+      listener(event.data, this.peerFor(event.source, event.origin));
+    };
+    window.addEventListener("message", this.listener);
+  }
+
+  public close(): void {
+    if (this.listener) window.removeEventListener("message", this.listener);
+    this.listener = null;
+  }
+
+  private peerFor(source: MessageEventSource, origin: string): RemotePeer {
+    let peer = this.peers.get(source);
+    if (!peer) {
+      // Opaque origins such as sandboxed frames can only be sent to with "*"
+      const targetOrigin = origin === "null" ? "*" : origin;
+      peer = {
+        send: (message) =>
+          (source as Window).postMessage(message, targetOrigin),
+      };
+      this.peers.set(source, peer);
+    }
+    return peer;
+  }
+}
+
+/**
+ * A WebSocket relay that passes messages between every connected client,
+ * reconnecting whenever the connection drops.
+ */
+export class WebSocketTransport implements RemoteTransport {
+  private url: string;
+  private socket: WebSocket | null = null;
+  private listener: ((data: unknown, peer: RemotePeer) => void) | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+  private peer: RemotePeer = {
+    send: (message) => {
+      if (this.socket?.readyState === WebSocket.OPEN) {
+        this.socket.send(JSON.stringify(message));
+      }
+    },
+  };
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  public listen(listener: (data: unknown, peer: RemotePeer) => void): void {
+    this.listener = listener;
+    this.connect();
+  }
+
+  public close(): void {
+    this.closed = true;
+    if (this.reconnectTimer !== null) clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private connect(): void {
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (error) {
+      // A malformed URL such as "localhost:8787" never connects; the other
+      // transports carry on without the relay
+      console.warn(
+        `Remote relay "${this.url}" skipped:`,
+        (error as Error).message,
+      );
+      return;
+    }
+    socket.onmessage = (event) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(event.data);
+      } catch {
+        // Not for us; the relay carries whatever its clients send
+        return;
+      }
+      this.listener?.(data, this.peer);
+    };
+    socket.onclose = () => {
+      if (this.closed) return;
+      this.reconnectTimer = setTimeout(() => this.connect(), reconnectMs);
+    };
+    this.socket = socket;
+  }
+}
+
+/** The transports `options` ask for. */
+export function createRemoteTransports(
+  options: RemoteOptions,
+): RemoteTransport[] {
+  const {
+    channel = defaultRemoteChannel,
+    origins = [window.location.origin],
+    relayUrl,
+  } = options;
+  const transports: RemoteTransport[] = [];
+  if (channel !== null && typeof BroadcastChannel !== "undefined") {
+    transports.push(new BroadcastChannelTransport(channel));
+  }
+  if (origins.length > 0) {
+    transports.push(new WindowMessageTransport(origins));
+  }
+  if (relayUrl) {
+    transports.push(new WebSocketTransport(relayUrl));
+  }
+  return transports;
+}
+
+function idOf(data: unknown): string | number | undefined {
+  if (!isRecord(data)) return undefined;
+  return typeof data.id === "string" || typeof data.id === "number"
+    ? data.id
+    : undefined;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
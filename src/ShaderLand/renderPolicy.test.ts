@@ -0,0 +1,47 @@
+import {
+  defaultRenderPolicy,
+  loadRenderPolicy,
+  RenderPolicy,
+  saveRenderPolicy,
+} from "./renderPolicy";
+
+const storageKey = "shaderland:render-policy";
+
+describe("loadRenderPolicy", () => {
+  afterEach(() => window.localStorage.clear());
+
+  it("starts from the defaults", () => {
+    expect(loadRenderPolicy()).toEqual(defaultRenderPolicy);
+  });
+
+  it("loads a saved policy", () => {
+    const policy: RenderPolicy = {
+      motion: "still",
+      pauseWhenHidden: false,
+      lowPower: true,
+    };
+    saveRenderPolicy(policy);
+
+    expect(loadRenderPolicy()).toEqual(policy);
+  });
+
+  it("falls back to the defaults for unreadable data", () => {
+    window.localStorage.setItem(storageKey, "{motion");
+    expect(loadRenderPolicy()).toEqual(defaultRenderPolicy);
+
+    window.localStorage.setItem(storageKey, '"still"');
+    expect(loadRenderPolicy()).toEqual(defaultRenderPolicy);
+  });
+
+  it("keeps the valid settings of partly invalid data", () => {
+    window.localStorage.setItem(
+      storageKey,
+      JSON.stringify({ motion: "fast", pauseWhenHidden: "no", lowPower: true }),
+    );
+
+    expect(loadRenderPolicy()).toEqual({
+      ...defaultRenderPolicy,
+      lowPower: true,
+    });
+  });
+});
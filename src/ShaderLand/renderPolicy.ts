@@ -0,0 +1,71 @@
+export type MotionPreference = "system" | "full" | "slowed" | "still";
+
+/** When and how fast a visitor wants scenes to animate. */
+export interface RenderPolicy {
+  motion: MotionPreference;
+  pauseWhenHidden: boolean;
+  lowPower: boolean;
+}
+
+export const defaultRenderPolicy: RenderPolicy = {
+  motion: "system",
+  pauseWhenHidden: true,
+  lowPower: false,
+};
+
+/** Time scale of the "slowed" motion preference */
+export const slowedMotionScale = 0.25;
+
+/** Frame rate the loop is throttled to in low-power mode */
+export const lowPowerFps = 30;
+
+const storageKey = "shaderland:render-policy";
+const motionPreferences: MotionPreference[] = [
+  "system",
+  "full",
+  "slowed",
+  "still",
+];
+export const reducedMotionQuery = "(prefers-reduced-motion: reduce)";
+
+export function loadRenderPolicy(): RenderPolicy {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(window.localStorage.getItem(storageKey) ?? "null");
+  } catch {
+    return { ...defaultRenderPolicy };
+  }
+  if (typeof stored !== "object" || stored === null) {
+    return { ...defaultRenderPolicy };
+  }
+
+  // Take each setting only if it's still valid, so old data can't break it
+  const { motion, pauseWhenHidden, lowPower } = stored as Record<
+    string,
+    unknown
+  >;
+  return {
+    motion: motionPreferences.includes(motion as MotionPreference)
+      ? (motion as MotionPreference)
+      : defaultRenderPolicy.motion,
+    pauseWhenHidden:
+      typeof pauseWhenHidden === "boolean"
+        ? pauseWhenHidden
+        : defaultRenderPolicy.pauseWhenHidden,
+    lowPower:
+      typeof lowPower === "boolean" ? lowPower : defaultRenderPolicy.lowPower,
+  };
+}
+
+export function saveRenderPolicy(policy: RenderPolicy): void {
+  window.localStorage.setItem(storageKey, JSON.stringify(policy));
+}
+
+/** Resolves "system" against the visitor's reduced-motion setting. */
+export function effectiveMotion(
+  policy: RenderPolicy,
+  prefersReducedMotion: boolean,
+): Exclude<MotionPreference, "system"> {
+  if (policy.motion !== "system") return policy.motion;
+  return prefersReducedMotion ? "slowed" : "full";
+}
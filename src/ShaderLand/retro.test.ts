@@ -0,0 +1,27 @@
+import { retroSize } from "./retro";
+
+describe("retroSize", () => {
+  it("renders at native resolution when off", () => {
+    expect(
+      retroSize({ retroResolution: "off", retroPixelSize: 4 }, 1920, 1080),
+    ).toBeNull();
+  });
+
+  it("renders at a fixed resolution", () => {
+    expect(
+      retroSize({ retroResolution: "320x180", retroPixelSize: 4 }, 1920, 1080),
+    ).toEqual({ width: 320, height: 180 });
+  });
+
+  it("divides the canvas by a whole pixel size", () => {
+    expect(
+      retroSize({ retroResolution: "pixel", retroPixelSize: 4.4 }, 1922, 1080),
+    ).toEqual({ width: 480, height: 270 });
+  });
+
+  it("keeps at least one pixel on each side", () => {
+    expect(
+      retroSize({ retroResolution: "pixel", retroPixelSize: 16 }, 8, 20),
+    ).toEqual({ width: 1, height: 1 });
+  });
+});
@@ -0,0 +1,151 @@
+import * as THREE from "three";
+import { FullScreenQuad } from "three/examples/jsm/postprocessing/Pass";
+import { ParamSchema } from "./params";
+
+export interface RetroParams {
+  retroResolution: string;
+  retroPixelSize: number;
+}
+
+export interface RetroSize {
+  width: number;
+  height: number;
+}
+
+export const retroParamSchema: ParamSchema<RetroParams> = [
+  {
+    key: "retroResolution",
+    label: "Resolution",
+    type: "select",
+    options: {
+      Native: "off",
+      "320×180": "320x180",
+      "426×240": "426x240",
+      "640×360": "640x360",
+      "Pixel Size": "pixel",
+    },
+    folder: "Retro",
+    resizes: true,
+  },
+  {
+    key: "retroPixelSize",
+    label: "Pixel Size",
+    type: "number",
+    min: 2,
+    max: 8,
+    step: 1,
+    folder: "Retro",
+    resizes: true,
+  },
+];
+
+/**
+ * The low-res size to render at for a canvas of `width` x `height` device
+ * pixels, or null to render at native resolution.
+ */
+export function retroSize(
+  params: RetroParams,
+  width: number,
+  height: number,
+): RetroSize | null {
+  if (params.retroResolution === "off") return null;
+
+  if (params.retroResolution === "pixel") {
+    const pixelSize = Math.round(params.retroPixelSize);
+    return {
+      width: Math.max(1, Math.floor(width / pixelSize)),
+      height: Math.max(1, Math.floor(height / pixelSize)),
+    };
+  }
+
+  const [retroWidth, retroHeight] = params.retroResolution
+    .split("x")
+    .map(Number);
+  return { width: retroWidth, height: retroHeight };
+}
+
+const UpscaleShader = {
+  uniforms: {
+    tDiffuse: { value: null },
+    sourceSize: { value: new THREE.Vector2(1, 1) },
+  },
+  vertexShader: `
+    varying vec2 vUv;
+
+    void main() {
+        vUv = uv;
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  fragmentShader: `
+    uniform sampler2D tDiffuse;
+    uniform vec2 sourceSize;
+
+    varying vec2 vUv;
+
+    void main() {
+        // Sample texel centers only: nearest-neighbor whatever the filter
+        vec2 texel = (floor(vUv * sourceSize) + 0.5) / sourceSize;
+        gl_FragColor = texture2D(tDiffuse, texel);
+    }
+  `,
+};
+
+/**
+ * Draws a low-res image into the renderer's viewport with nearest-neighbor
+ * sampling, at the largest whole-number scale that fits and letterboxed in
+ * black.
+ */
+export class RetroUpscaler {
+  private quad: FullScreenQuad;
+  private material: THREE.ShaderMaterial;
+  private viewport = new THREE.Vector4();
+
+  constructor() {
+    this.material = new THREE.ShaderMaterial({
+      ...UpscaleShader,
+      uniforms: THREE.UniformsUtils.clone(UpscaleShader.uniforms),
+      depthTest: false,
+      depthWrite: false,
+    });
+    this.quad = new FullScreenQuad(this.material);
+  }
+
+  public render(
+    renderer: THREE.WebGLRenderer,
+    texture: THREE.Texture,
+    size: RetroSize,
+  ): void {
+    // Viewports are in CSS pixels, the image in device pixels
+    const viewport = renderer.getViewport(this.viewport);
+    const pixelRatio = renderer.getPixelRatio();
+    const width = viewport.z * pixelRatio;
+    const height = viewport.w * pixelRatio;
+
+    // Shrink smoothly only when the viewport is smaller than the image
+    const fit = Math.min(width / size.width, height / size.height);
+    const scale = fit >= 1 ? Math.floor(fit) : fit;
+    const scaledWidth = size.width * scale;
+    const scaledHeight = size.height * scale;
+
+    renderer.setRenderTarget(null);
+    renderer.clear();
+    renderer.setViewport(
+      viewport.x + (width - scaledWidth) / 2 / pixelRatio,
+      viewport.y + (height - scaledHeight) / 2 / pixelRatio,
+      scaledWidth / pixelRatio,
+      scaledHeight / pixelRatio,
+    );
+
+    this.material.uniforms.tDiffuse.value = texture;
+    this.material.uniforms.sourceSize.value.set(size.width, size.height);
+    this.quad.render(renderer);
+
+    renderer.setViewport(viewport);
+  }
+
+  public dispose(): void {
+    this.material.dispose();
+    this.quad.dispose();
+  }
+}
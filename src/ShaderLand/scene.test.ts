@@ -0,0 +1,61 @@
+import { sceneDefinitions } from "./registry";
+
+// jsdom has no WebGL, so scenes get a renderer that draws nothing
+jest.mock("three", () => {
+  const THREE = jest.requireActual("three");
+
+  class FakeRenderer {
+    public domElement = global.document.createElement("canvas");
+    public info = {
+      autoReset: true,
+      render: { calls: 0, triangles: 0 },
+      reset: () => {},
+    };
+    private pixelRatio = 1;
+    private size = new THREE.Vector2(300, 150);
+
+    public getPixelRatio() {
+      return this.pixelRatio;
+    }
+    public setPixelRatio(pixelRatio: number) {
+      this.pixelRatio = pixelRatio;
+    }
+    public getSize(target: { set: (x: number, y: number) => unknown }) {
+      return target.set(this.size.x, this.size.y);
+    }
+    public setSize(width: number, height: number) {
+      this.size.set(width, height);
+    }
+    public dispose() {}
+    public forceContextLoss() {}
+  }
+
+  return { ...THREE, WebGLRenderer: FakeRenderer };
+});
+
+class FakeResizeObserver {
+  public observe() {}
+  public unobserve() {}
+  public disconnect() {}
+}
+
+describe("ShaderScene", () => {
+  beforeAll(() => {
+    window.ResizeObserver = FakeResizeObserver;
+  });
+
+  it.each(sceneDefinitions.map((definition) => [definition.id, definition]))(
+    "constructs and disposes %s",
+    (id, definition) => {
+      const container = document.createElement("div");
+      const guiContainer = document.createElement("div");
+      document.body.appendChild(container);
+
+      const scene = definition.create(container, { guiContainer });
+      expect(scene.getParamSchema().length).toBeGreaterThan(0);
+      scene.dispose();
+
+      container.remove();
+    },
+  );
+});
@@ -1,275 +1,1338 @@
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls";
 import { EffectComposer } from "three/examples/jsm/postprocessing/EffectComposer";
+import { Pass } from "three/examples/jsm/postprocessing/Pass";
 import { RenderPass } from "three/examples/jsm/postprocessing/RenderPass";
-import { UnrealBloomPass } from "three/examples/jsm/postprocessing/UnrealBloomPass";
 import * as dat from "dat.gui";
+import { AudioInput } from "./audio";
+import {
+  AudioRoute,
+  AudioRoutes,
+  audioRouteTargets,
+  rotationTarget,
+} from "./audioRoutes";
+import { Autopilot } from "./autopilot";
+import { SceneClock } from "./clock";
+import {
+  DepthDebugPass,
+  DepthParams,
+  fitDepthRange,
+  noFogMode,
+} from "./depthShading";
+import { FrameStats, PerformanceGovernor } from "./governor";
+import { InteractionParams, PointerInteraction } from "./interaction";
+import {
+  clampParam,
+  lerpParam,
+  ParamDefinition,
+  ParamSchema,
+  uniformValue,
+} from "./params";
+import {
+  compileShaderMaterial,
+  LiveUniformType,
+  parseUniformDeclarations,
+  ShaderError,
+  ShaderSource,
+} from "./shaderCompiler";
+import { RetroParams, RetroSize, retroSize, RetroUpscaler } from "./retro";
+import { ShapeDeclaration, ShapeSet } from "./shapes";
+import { SharedRenderer } from "./sharedRenderer";
+import { StripePatternParams, stripeRepeatLength } from "./stripePattern";
+import { Timeline, TimelinePlayer, TimelineTarget } from "./timeline";
+import { TorusField, TorusFieldParams } from "./torusField";
+import { Transition, TransitionPass } from "./transition";
 
-export class Scene {
-  private scene: THREE.Scene;
-  private camera: THREE.PerspectiveCamera;
-  private renderer: THREE.WebGLRenderer;
-  private composer: EffectComposer;
-  private bloomPass: UnrealBloomPass;
-  private controls: OrbitControls;
-  private gui!: dat.GUI;
-  private stripeMaterial: THREE.ShaderMaterial = new THREE.ShaderMaterial();
-  private torus1: THREE.Mesh = new THREE.Mesh();
-  private torus2: THREE.Mesh = new THREE.Mesh();
-  private torusGroup: THREE.Group = new THREE.Group();
-  private params: {
-    stripeWidth: number;
-    stripeSpacing: number;
-    animationSpeed: number;
-    torusRadius: number;
-    tubeRadius: number;
-    radialSegments: number;
-    tubularSegments: number;
-    stripeColor: string;
-    bloomStrength: number;
-    bloomRadius: number;
-    bloomThreshold: number;
+export interface SceneParams
+  extends StripePatternParams,
+    DepthParams,
+    RetroParams,
+    InteractionParams,
+    TorusFieldParams {
+  stripeWidth: number;
+  stripeSpacing: number;
+  animationSpeed: number;
+  torusRadius: number;
+  tubeRadius: number;
+  radialSegments: number;
+  tubularSegments: number;
+}
+
+export type ParamValues = Record<string, number | string>;
+
+// Rates per second of scene time, matching the original per-frame
+// increments at 60fps
+const shaderTimePerSecond = 0.6;
+const groupSpinPerSecond = 0.06;
+const groupTilt = THREE.MathUtils.degToRad(20);
+
+/** Upper end of the clock's scrub slider, in seconds */
+const scrubRange = 120;
+
+/** Timeline targets that move the camera, by the axis they set */
+const cameraTargetAxes: Record<string, "x" | "y" | "z"> = {
+  "camera.x": "x",
+  "camera.y": "y",
+  "camera.z": "z",
+};
+
+/** Starting values for uniforms declared in the live shader editor */
+const liveUniformDefaults: Record<LiveUniformType, number | boolean | string> =
+  {
+    float: 0.5,
+    int: 1,
+    bool: false,
+    vec3: "#ffffff",
   };
 
-  constructor(container: HTMLDivElement) {
+export interface FrameSequence {
+  width: number;
+  height: number;
+  fps: number;
+  frameCount: number;
+  startTime: number;
+  /** Hold the group's spin at `startTime` so only the stripes move */
+  holdSpin?: boolean;
+}
+
+export interface SceneOptions {
+  /**
+   * Element the GUI is placed in, or null for no GUI. Defaults to the top
+   * right corner of the page.
+   */
+  guiContainer?: HTMLElement | null;
+  /** Draw through a page-wide context instead of a canvas of its own */
+  sharedRenderer?: SharedRenderer;
+}
+
+/** Where the camera is and what it looks at. */
+export interface CameraView {
+  position: THREE.Vector3Tuple;
+  /** Defaults to the origin */
+  target?: THREE.Vector3Tuple;
+}
+
+/** What the rest of the app sees of a scene, whatever its params. */
+export interface ShaderScene {
+  readonly clock: SceneClock;
+  readonly governor: PerformanceGovernor;
+  readonly running: boolean;
+  start(): void;
+  stop(): void;
+  dispose(): void;
+  getParams(): ParamValues;
+  getParamSchema(): ParamSchema<ParamValues>;
+  setParams(values: ParamValues): void;
+  tweenParams(values: ParamValues, seconds: number): void;
+  onParamsEdited(listener: (params: ParamValues) => void): () => void;
+  onMessage(listener: (message: string) => void): () => void;
+  stripePeriod(): number;
+  renderFrames(
+    sequence: FrameSequence,
+    onFrame: (canvas: HTMLCanvasElement, index: number) => Promise<void>,
+  ): Promise<void>;
+  getShaderSource(): ShaderSource;
+  setShaderSource(source: ShaderSource): ShaderError[];
+  addModel(file: File): Promise<void>;
+  getAudioRoutes(): AudioRoute[];
+  setAudioRoutes(routes: AudioRoute[]): void;
+  getTimeline(): Timeline;
+  setTimeline(timeline: Timeline): void;
+  getTimelineTargets(): TimelineTarget[];
+  getTargetValue(target: string): number | string;
+  getStats(): FrameStats;
+  transitionFrom(previous: ShaderScene, transition: Transition): Promise<void>;
+  drawFrame(now: number): HTMLCanvasElement;
+  setGuiVisible(visible: boolean): void;
+  moveCamera(view: CameraView, seconds: number): void;
+}
+
+export const stripeParamSchema: ParamSchema<SceneParams> = [
+  {
+    key: "stripeWidth",
+    label: "Stripe Width",
+    type: "number",
+    min: 0.01,
+    max: 0.5,
+    step: 0.01,
+    folder: "Shader Parameters",
+    uniform: "stripeWidth",
+  },
+  {
+    key: "stripeSpacing",
+    label: "Stripe Spacing",
+    type: "number",
+    min: 0.1,
+    max: 2.0,
+    step: 0.1,
+    folder: "Shader Parameters",
+    uniform: "stripeSpacing",
+  },
+  {
+    key: "animationSpeed",
+    label: "Animation Speed",
+    type: "number",
+    min: 0.1,
+    max: 2.0,
+    step: 0.1,
+    folder: "Shader Parameters",
+    uniform: "speed",
+  },
+];
+
+export const torusParamSchema: ParamSchema<SceneParams> = [
+  {
+    key: "torusRadius",
+    label: "Torus Radius",
+    type: "number",
+    min: 5,
+    max: 20,
+    step: 0.5,
+    folder: "Torus Geometry",
+    rebuildsGeometry: true,
+  },
+  {
+    key: "tubeRadius",
+    label: "Tube Radius",
+    type: "number",
+    min: 0.5,
+    max: 6,
+    step: 0.1,
+    folder: "Torus Geometry",
+    rebuildsGeometry: true,
+  },
+  {
+    key: "radialSegments",
+    label: "Radial Segments",
+    type: "number",
+    min: 3,
+    max: 64,
+    step: 1,
+    folder: "Torus Geometry",
+    rebuildsGeometry: true,
+  },
+  {
+    key: "tubularSegments",
+    label: "Tubular Segments",
+    type: "number",
+    min: 3,
+    max: 128,
+    step: 1,
+    folder: "Torus Geometry",
+    rebuildsGeometry: true,
+  },
+];
+
+/**
+ * Shared base for every ShaderLand scene. Owns the renderer, camera,
+ * controls, post-processing composer, GUI and the stripe-shaded shapes;
+ * subclasses provide the stripe material and their passes. The GUI and the
+ * binding of params to uniforms and passes are generated from the scene's
+ * param schema. The scene fills its container and follows its size.
+ */
+export abstract class Scene<P extends SceneParams = SceneParams>
+  implements ShaderScene
+{
+  protected scene: THREE.Scene;
+  protected camera: THREE.PerspectiveCamera;
+  protected renderer: THREE.WebGLRenderer;
+  protected composer: EffectComposer;
+  protected controls: OrbitControls;
+  protected gui: dat.GUI;
+  protected stripeMaterial: THREE.ShaderMaterial = new THREE.ShaderMaterial();
+  protected shapes!: ShapeSet;
+  protected field!: TorusField;
+  protected torusGroup: THREE.Group = new THREE.Group();
+  /** Holds `torusGroup`; turned by dragging in spin mode */
+  private spinGroup = new THREE.Group();
+  private interaction!: PointerInteraction;
+  protected params: P;
+  public readonly clock = new SceneClock();
+  public readonly governor = new PerformanceGovernor();
+  protected schema: ParamSchema<P>;
+  /** Post-processing passes that schema entries can target by name */
+  protected passes: { [name: string]: Pass } = {};
+  private controllers = new Map<string, dat.GUIController>();
+  private paramsListeners = new Set<(params: ParamValues) => void>();
+  private messageListeners = new Set<(message: string) => void>();
+  private container: HTMLDivElement;
+  private sharedRenderer: SharedRenderer | null;
+  private detachView: (() => void) | null = null;
+  /** The container's rect on the shared canvas */
+  private viewport = new THREE.Vector4();
+  private resizeObserver: ResizeObserver;
+  private frameId: number | null = null;
+  /** A single frame requested while stopped, to show a change */
+  private redrawId: number | null = null;
+  private disposed = false;
+  private contextLost = false;
+  /** Whether to restart the loop once a lost context is restored */
+  private resumeOnRestore = false;
+  private liveUniforms: { [name: string]: number | boolean | string } = {};
+  private liveUniformFolder: dat.GUI | null = null;
+  private audio = new AudioInput();
+  private audioRoutes!: AudioRoutes;
+  private timeline!: TimelinePlayer;
+  private autopilot!: Autopilot;
+  private depthDebugPass!: DepthDebugPass;
+  private upscaler = new RetroUpscaler();
+  /** Whether the fog uniforms hold a range fitted to the shapes */
+  private depthRangeFitted = false;
+  /** Low-res size the composer renders at in retro mode */
+  private retroSize: RetroSize | null = null;
+  /** A preset blend in progress; `start` is set on its first frame */
+  private paramTween: {
+    from: ParamValues;
+    to: ParamValues;
+    start: number | null;
+    duration: number;
+  } | null = null;
+  /** A camera move in progress; `start` is set on its first frame */
+  private cameraTween: {
+    fromPosition: THREE.Vector3;
+    fromTarget: THREE.Vector3;
+    position: THREE.Vector3;
+    target: THREE.Vector3;
+    start: number | null;
+    duration: number;
+  } | null = null;
+  private transitionPass!: TransitionPass;
+  /** The scene being transitioned away from, drawn under this one */
+  private transition: {
+    from: ShaderScene;
+    start: number | null;
+    duration: number;
+    done: () => void;
+  } | null = null;
+
+  constructor(
+    container: HTMLDivElement,
+    schema: ParamSchema<P>,
+    params: P,
+    rendererParameters: THREE.WebGLRendererParameters = {},
+    options: SceneOptions = {},
+  ) {
+    this.container = container;
+    this.schema = schema;
+    this.params = params;
+    this.sharedRenderer = options.sharedRenderer ?? null;
+    this.resizeObserver = new ResizeObserver(() => this.handleResize());
+    const { x: width, y: height } = this.viewSize();
+
     // Initialize scene
     this.scene = new THREE.Scene();
-    this.camera = new THREE.PerspectiveCamera(
-      75,
-      window.innerWidth / window.innerHeight,
-      0.1,
-      1000,
+    this.camera = new THREE.PerspectiveCamera(75, width / height, 0.1, 1000);
+    if (this.sharedRenderer) {
+      // The shared renderer was created with its own parameters
+      this.renderer = this.sharedRenderer.renderer;
+      this.detachView = this.sharedRenderer.attach(() => {
+        if (!this.contextLost) this.render();
+      });
+    } else {
+      this.renderer = new THREE.WebGLRenderer(rendererParameters);
+      this.renderer.setPixelRatio(this.governor.pixelRatio);
+      this.renderer.setSize(width, height);
+      // Passes render several times a frame; stats are reset once per frame
+      this.renderer.info.autoReset = false;
+      container.appendChild(this.renderer.domElement);
+    }
+    this.renderer.domElement.addEventListener(
+      "webglcontextlost",
+      this.handleContextLost,
     );
-    this.renderer = new THREE.WebGLRenderer({
-      antialias: true,
-      powerPreference: "high-performance",
-    });
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
-    container.appendChild(this.renderer.domElement);
-
-    // Initialize parameters
-    this.params = {
-      stripeWidth: 0.035,
-      stripeSpacing: 0.5,
-      animationSpeed: 0.35,
-      torusRadius: 10,
-      tubeRadius: 3,
-      radialSegments: 16,
-      tubularSegments: 16,
-      stripeColor: "#ffffff",
-      bloomStrength: 1.5,
-      bloomRadius: 0.4,
-      bloomThreshold: 0.85,
-    };
-
-    // Setup post-processing
-    this.composer = new EffectComposer(this.renderer);
-    const renderPass = new RenderPass(this.scene, this.camera);
-    this.composer.addPass(renderPass);
-
-    // Add bloom pass
-    this.bloomPass = new UnrealBloomPass(
-      new THREE.Vector2(window.innerWidth, window.innerHeight),
-      1.5,
-      0.4,
-      0.85,
+    this.renderer.domElement.addEventListener(
+      "webglcontextrestored",
+      this.handleContextRestored,
     );
-    this.composer.addPass(this.bloomPass);
 
-    // Setup controls
-    this.controls = new OrbitControls(this.camera, this.renderer.domElement);
+    // Setup post-processing. The targets carry a depth texture so passes can
+    // read scene depth.
+    const renderTarget = new THREE.WebGLRenderTarget(width, height, {
+      type: THREE.HalfFloatType,
+      depthTexture: new THREE.DepthTexture(width, height),
+    });
+    this.composer = new EffectComposer(this.renderer, renderTarget);
+    this.composer.addPass(new RenderPass(this.scene, this.camera));
+
+    // Setup controls. The container, since a shared canvas sits behind it.
+    this.controls = new OrbitControls(this.camera, container);
     this.controls.enableDamping = true;
     this.controls.dampingFactor = 0.05;
     this.controls.enableZoom = true;
+    this.controls.addEventListener("start", this.handleControlsStart);
+    this.controls.addEventListener("change", this.requestRedraw);
 
     // Create GUI
     this.gui = new dat.GUI({
       name: "ShaderLand",
-      autoPlace: true,
+      autoPlace: options.guiContainer === undefined,
     });
+    options.guiContainer?.appendChild(this.gui.domElement);
+  }
 
+  /**
+   * Builds the material, meshes and GUI. Called by subclasses at the end of
+   * their constructor, once their own fields exist. Rendering begins with
+   * `start()`.
+   */
+  protected init(): void {
     this.setupMaterial();
-    this.setupMesh();
+    // Before the GUI, whose autopilot listens for its drags
+    this.interaction = new PointerInteraction(
+      this.container,
+      this.camera,
+      this.controls,
+      this.spinGroup,
+      this.stripeMaterial,
+      () => this.shapes.meshes,
+      () => this.params,
+    );
     this.setupGUI();
+    this.setupMesh();
     this.setupScene();
-    this.animate();
 
-    // Handle window resize
-    window.addEventListener("resize", this.handleResize);
-  }
+    // Last, so it can replace everything the other passes drew
+    this.depthDebugPass = new DepthDebugPass(this.camera);
+    this.addPass("depthDebug", this.depthDebugPass);
+    // After that, so the image it blends in is the finished one
+    this.transitionPass = new TransitionPass();
+    this.addPass("transition", this.transitionPass);
 
-  private setupMaterial(): void {
-    this.stripeMaterial = new THREE.ShaderMaterial({
-      uniforms: {
-        time: { value: 0 },
-        stripeWidth: { value: this.params.stripeWidth },
-        stripeSpacing: { value: this.params.stripeSpacing },
-        speed: { value: this.params.animationSpeed },
-        stripeColor: { value: new THREE.Color(this.params.stripeColor) },
-      },
-      vertexShader: `
-        varying vec3 vViewPosition;
-        varying float vDepth;
-
-        void main() {
-            vec4 modelPosition = modelMatrix * vec4(position, 1.0);
-            vec4 viewPosition = viewMatrix * modelPosition;
-            vViewPosition = viewPosition.xyz;
-            
-            // Calculate normalized depth (0 = near, 1 = far)
-            vDepth = (-viewPosition.z - 20.0) / 20.0;
-            vDepth = clamp(vDepth, 0.0, 1.0);
-            
-            gl_Position = projectionMatrix * viewPosition;
-        }
-      `,
-      fragmentShader: `
-        uniform vec3 stripeColor;
-        uniform float stripeWidth;
-        uniform float stripeSpacing;
-        uniform float time;
-        uniform float speed;
-        
-        varying vec3 vViewPosition;
-        varying float vDepth;
-        
-        void main() {
-            // Use view space Y coordinate for consistent downward movement
-            float animatedY = -vViewPosition.y + time * speed;
-            float totalWidth = stripeWidth + stripeSpacing;
-            float stripePattern = mod(animatedY, totalWidth);
-            float line = step(0.0, stripePattern) - step(stripeWidth, stripePattern);
-            
-            // Darken colors based on depth
-            float depthFactor = 1.0 - (vDepth * 0.98);
-            vec3 finalColor = mix(vec3(0.0), stripeColor * depthFactor, line);
-            gl_FragColor = vec4(finalColor, 1.0);
-        }
-      `,
-      transparent: false,
-      side: THREE.FrontSide,
-    });
+    // Sync passes, which are created with their own defaults
+    for (const definition of this.schema) {
+      if (definition.pass) this.applyParam(definition);
+    }
   }
 
-  private setupMesh(): void {
-    const geometry = new THREE.TorusGeometry(
-      this.params.torusRadius,
-      this.params.tubeRadius,
-      this.params.radialSegments,
-      this.params.tubularSegments,
+  protected abstract setupMaterial(): void;
+
+  protected setupGUI(): void {
+    const folders = new Map<string, dat.GUI>();
+    for (const definition of this.schema) {
+      let folder = folders.get(definition.folder);
+      if (!folder) {
+        folder = this.gui.addFolder(definition.folder);
+        folder.open();
+        folders.set(definition.folder, folder);
+      }
+
+      let controller: dat.GUIController;
+      if (definition.type === "color") {
+        controller = folder.addColor(this.params, definition.key);
+      } else if (definition.type === "select") {
+        controller = folder.add(
+          this.params,
+          definition.key,
+          definition.options,
+        );
+      } else {
+        controller = folder.add(
+          this.params,
+          definition.key,
+          definition.min,
+          definition.max,
+          definition.step,
+        );
+      }
+      controller.name(definition.label).onChange(() => {
+        // An edit takes the param out of any preset blend
+        delete this.paramTween?.to[definition.key];
+        this.applyParam(definition);
+        this.requestRedraw();
+        const params = this.getParams();
+        this.paramsListeners.forEach((listener) => listener(params));
+      });
+      this.controllers.set(definition.key, controller);
+    }
+
+    const clockFolder = this.gui.addFolder("Clock");
+    clockFolder.add(this.clock, "playing").name("Playing").listen();
+    clockFolder.add(this.clock, "speed", 0, 4, 0.05).name("Speed");
+    clockFolder
+      .add(this.clock, "time", 0, scrubRange, 0.01)
+      .name("Time")
+      .listen();
+    clockFolder.add(this.clock, "step").name("Step Frame");
+    clockFolder.open();
+
+    const applyScale = () => this.applyRenderScale(this.governor.renderScale);
+    const performanceFolder = this.gui.addFolder("Performance");
+    performanceFolder.add(this.governor, "adaptive").name("Adaptive");
+    performanceFolder
+      .add(this.governor, "targetFps", { "30": 30, "60": 60, "120": 120 })
+      .name("Target FPS");
+    performanceFolder
+      .add(this.governor, "maxPixelRatio", 1, 3, 0.25)
+      .name("Pixel Ratio Cap")
+      .onChange(applyScale);
+    performanceFolder
+      .add(this.governor, "minScale", 0.25, 1, 0.05)
+      .name("Min Scale");
+    performanceFolder
+      .add(this.governor, "renderScale", 0.25, 1, 0.01)
+      .name("Render Scale")
+      .onChange(applyScale)
+      .listen();
+
+    this.autopilot = new Autopilot(
+      this.gui,
+      this.camera,
+      this.controls,
+      this.interaction,
+      this.torusGroup,
+      this.showMessage,
     );
 
-    // Create two toruses with the same geometry and material
-    this.torus1 = new THREE.Mesh(geometry, this.stripeMaterial);
-    this.torus2 = new THREE.Mesh(geometry.clone(), this.stripeMaterial);
+    this.audioRoutes = new AudioRoutes(
+      this.gui,
+      this.audio,
+      audioRouteTargets(this.schema),
+      this.modulate,
+      this.showMessage,
+    );
+    this.timeline = new TimelinePlayer(
+      this.getTimelineTargets(),
+      this.modulate,
+    );
+  }
 
-    // Position first torus slightly left of center
-    this.torus1.position.x = -this.params.torusRadius / 3;
+  /**
+   * Pushes the current value of a param to its uniform, pass or geometry, or
+   * a modulated `value` in its place.
+   */
+  protected applyParam(
+    definition: ParamDefinition<P>,
+    value: unknown = this.params[definition.key],
+  ): void {
+    if (definition.uniform) {
+      const uniform = this.stripeMaterial.uniforms[definition.uniform];
+      if (definition.type === "color") uniform.value.set(value);
+      else uniform.value = uniformValue(definition, value);
+    }
+    if (definition.pass) {
+      const [name, property] = definition.pass.split(".");
+      const pass = this.passes[name] as unknown as
+        | Record<string, unknown>
+        | undefined;
+      if (pass) pass[property] = value;
+    }
+    if (definition.rebuildsGeometry) {
+      this.updateGeometry();
+    }
+    if (definition.resizes) {
+      this.handleResize();
+    }
+  }
 
-    // Position and rotate second torus
-    this.torus2.rotation.x = Math.PI / 1.8;
-    this.torus2.rotation.z = Math.PI / 1.2;
-    this.torus2.position.x = this.params.torusRadius / 3;
+  /** Appends a pass to the composer under a name schema entries can target. */
+  protected addPass(name: string, pass: Pass): void {
+    this.composer.addPass(pass);
+    this.passes[name] = pass;
+  }
 
-    // Clear any existing children from the group
-    this.torusGroup.clear();
+  /** The shapes a scene starts with; the GUI can add and remove more. */
+  protected declareShapes(): ShapeDeclaration[] {
+    // Two interlocking toruses, slightly either side of center
+    return [
+      {
+        kind: "torus",
+        name: "Torus 1",
+        position: [-this.params.torusRadius / 3, 0, 0],
+      },
+      {
+        kind: "torus",
+        name: "Torus 2",
+        position: [this.params.torusRadius / 3, 0, 0],
+        rotation: [Math.PI / 1.8, 0, Math.PI / 1.2],
+      },
+    ];
+  }
 
-    // Add toruses to the group
-    this.torusGroup.add(this.torus1);
-    this.torusGroup.add(this.torus2);
+  protected setupMesh(): void {
+    this.shapes = new ShapeSet(
+      this.torusGroup,
+      this.stripeMaterial,
+      this.gui,
+      () => this.params,
+    );
+    for (const declaration of this.declareShapes()) {
+      this.shapes.add(declaration);
+    }
 
     // Rotate the entire group towards the user
-    this.torusGroup.rotation.x = THREE.MathUtils.degToRad(20);
+    this.torusGroup.rotation.x = groupTilt;
+
+    this.spinGroup.add(this.torusGroup);
+    this.scene.add(this.spinGroup);
 
-    this.scene.add(this.torusGroup);
+    this.field = new TorusField(
+      this.scene,
+      this.stripeMaterial,
+      () => this.params,
+    );
+    this.field.rebuild();
   }
 
-  private setupGUI(): void {
-    const shaderFolder = this.gui.addFolder("Shader Parameters");
-    shaderFolder
-      .add(this.params, "stripeWidth", 0.01, 0.5, 0.01)
-      .name("Stripe Width")
-      .onChange(() => {
-        this.stripeMaterial.uniforms.stripeWidth.value =
-          this.params.stripeWidth;
-      });
-    shaderFolder
-      .add(this.params, "stripeSpacing", 0.1, 2.0, 0.1)
-      .name("Stripe Spacing")
-      .onChange(() => {
-        this.stripeMaterial.uniforms.stripeSpacing.value =
-          this.params.stripeSpacing;
-      });
-    shaderFolder
-      .add(this.params, "animationSpeed", 0.1, 2.0, 0.1)
-      .onChange(() => {
-        this.stripeMaterial.uniforms.speed.value = this.params.animationSpeed;
-      });
-    shaderFolder.open();
-
-    const materialFolder = this.gui.addFolder("Material");
-    materialFolder
-      .addColor(this.params, "stripeColor")
-      .name("Stripe Color")
-      .onChange(() => {
-        this.stripeMaterial.uniforms.stripeColor.value.set(
-          this.params.stripeColor,
-        );
-      });
-    materialFolder.open();
-
-    const bloomFolder = this.gui.addFolder("Bloom");
-    bloomFolder
-      .add(this.params, "bloomStrength", 0.0, 3.0, 0.05)
-      .name("Strength")
-      .onChange(() => {
-        this.bloomPass.strength = this.params.bloomStrength;
-      });
-    bloomFolder
-      .add(this.params, "bloomRadius", 0.0, 1.0, 0.01)
-      .name("Radius")
-      .onChange(() => {
-        this.bloomPass.radius = this.params.bloomRadius;
-      });
-    bloomFolder
-      .add(this.params, "bloomThreshold", 0.0, 1.0, 0.05)
-      .name("Threshold")
-      .onChange(() => {
-        this.bloomPass.threshold = this.params.bloomThreshold;
-      });
-    bloomFolder.open();
+  protected updateGeometry(): void {
+    this.shapes.rebuildToruses();
+    this.field.rebuild();
   }
 
-  private setupScene(): void {
+  protected setupScene(): void {
     this.camera.position.z = 30;
     this.scene.background = new THREE.Color(0x000000);
   }
 
-  private handleResize = (): void => {
-    this.camera.aspect = window.innerWidth / window.innerHeight;
+  /** The container's size in CSS pixels, which the scene fills. */
+  protected viewSize(): THREE.Vector2 {
+    // A collapsed container would make zero-sized framebuffers
+    return new THREE.Vector2(
+      Math.max(this.container.clientWidth, 1),
+      Math.max(this.container.clientHeight, 1),
+    );
+  }
+
+  protected resize(
+    width: number,
+    height: number,
+    pixelRatio: number = this.governor.pixelRatio,
+  ): void {
+    // A shared canvas keeps its size; only this scene's targets change
+    if (!this.sharedRenderer) {
+      this.renderer.setPixelRatio(pixelRatio);
+      this.renderer.setSize(width, height);
+    }
+
+    // Retro mode renders every pass at a low resolution, upscaled in render()
+    this.retroSize = retroSize(
+      this.params,
+      Math.floor(width * pixelRatio),
+      Math.floor(height * pixelRatio),
+    );
+    if (this.retroSize) {
+      this.camera.aspect = this.retroSize.width / this.retroSize.height;
+      this.composer.setPixelRatio(1);
+      this.composer.setSize(this.retroSize.width, this.retroSize.height);
+    } else {
+      this.camera.aspect = width / height;
+      this.composer.setPixelRatio(pixelRatio);
+      this.composer.setSize(width, height);
+    }
     this.camera.updateProjectionMatrix();
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
-    this.composer.setSize(window.innerWidth, window.innerHeight);
+  }
+
+  /**
+   * Re-renders at a new fraction of the device pixel ratio. Subclasses scale
+   * their own costly passes here too.
+   */
+  protected applyRenderScale(_scale: number): void {
+    this.handleResize();
+  }
+
+  /**
+   * Sets every time-dependent uniform and transform from scene time.
+   * `spinTime` lets the group's rotation be held while the stripes move.
+   */
+  protected update(time: number, spinTime: number = time): void {
+    this.stripeMaterial.uniforms.time.value = time * shaderTimePerSecond;
+    this.stripeMaterial.uniforms.spinTime.value =
+      spinTime * shaderTimePerSecond;
+    this.torusGroup.rotation.x = groupTilt - spinTime * groupSpinPerSecond;
+    this.autopilot.update(time, performance.now());
+    // After the autopilot, so camera keyframes win
+    this.timeline.update(time);
+    this.updateDepthShading();
+  }
+
+  protected render(): void {
+    this.renderer.info.reset();
+    if (this.sharedRenderer) {
+      if (!this.sharedRenderer.viewport(this.container, this.viewport)) return;
+      this.renderer.setViewport(this.viewport);
+      this.renderer.setScissor(this.viewport);
+      this.renderer.setScissorTest(true);
+    }
+    // The render pass draws into the current read buffer
+    this.depthDebugPass.depthTexture = this.composer.readBuffer.depthTexture;
+    this.composer.renderToScreen = this.retroSize === null;
+    this.composer.render();
+
+    // The final pass has swapped its output into the read buffer
+    if (this.retroSize) {
+      this.upscaler.render(
+        this.renderer,
+        this.composer.readBuffer.texture,
+        this.retroSize,
+      );
+    }
+    this.renderer.setScissorTest(false);
+  }
+
+  /** Moves the depth range with the camera when it's fitted to the shapes. */
+  private updateDepthShading(): void {
+    // The uniforms hold the params with any timeline or audio modulation
+    const { uniforms } = this.stripeMaterial;
+    if (this.params.depthFit === "auto") {
+      const [near, far] = fitDepthRange(this.torusGroup, this.camera);
+      uniforms.fogNear.value = near;
+      uniforms.fogFar.value = far;
+      this.depthRangeFitted = true;
+    } else if (this.depthRangeFitted) {
+      uniforms.fogNear.value = this.params.fogNear;
+      uniforms.fogFar.value = this.params.fogFar;
+      this.depthRangeFitted = false;
+    }
+    this.depthDebugPass.setRange(uniforms.fogNear.value, uniforms.fogFar.value);
+
+    // Fog fades into the background
+    const background = this.scene.background as THREE.Color;
+    if (uniforms.fogMode.value === noFogMode) background.set(0x000000);
+    else background.copy(uniforms.fogColor.value);
+  }
+
+  private handleResize = (): void => {
+    const { x: width, y: height } = this.viewSize();
+    this.resize(width, height);
+  };
+
+  private handleContextLost = (event: Event): void => {
+    // Without this the browser won't try to restore the context
+    event.preventDefault();
+    this.contextLost = true;
+    this.resumeOnRestore = this.running;
+    this.stop();
   };
 
-  private animate = (): void => {
-    requestAnimationFrame(this.animate);
+  private handleContextRestored = (): void => {
+    this.contextLost = false;
+    this.restoreGpuResources();
+    if (this.resumeOnRestore) this.start();
+  };
+
+  /**
+   * Rebuilds GPU-side state after a lost context is restored. three.js has
+   * forgotten every upload by then, so geometries are rebuilt, the material
+   * recompiled and the passes' targets and materials reallocated.
+   */
+  protected restoreGpuResources(): void {
+    this.updateGeometry();
+    this.stripeMaterial.needsUpdate = true;
+    for (const pass of this.composer.passes) pass.dispose();
+    this.handleResize();
+  }
+
+  private animate = (now: number = performance.now()): void => {
+    this.frameId = requestAnimationFrame(this.animate);
+    if (this.governor.throttled(now)) return;
+    this.frame(now);
+  };
+
+  /** Advances everything to `now`, a rAF timestamp, and draws. */
+  private frame(now: number): void {
+    if (this.governor.frame(now)) {
+      this.applyRenderScale(this.governor.renderScale);
+    }
+    this.clock.tick(now);
     this.controls.update();
-    this.stripeMaterial.uniforms.time.value += 0.01;
-    this.torusGroup.rotation.x -= 0.001;
-    this.composer.render();
+    this.updateCameraTween(now);
+    this.interaction.update(now);
+    this.updateParamTween(now);
+    this.update(this.clock.time);
+    this.audioRoutes.update(now);
+    this.updateTransition(now);
+    this.render();
+  }
+
+  private updateParamTween(now: number): void {
+    const tween = this.paramTween;
+    if (!tween) return;
+
+    tween.start ??= now;
+    const progress = Math.min((now - tween.start) / tween.duration, 1);
+    if (progress === 1) {
+      this.finishParamTween();
+      return;
+    }
+    const blend = THREE.MathUtils.smootherstep(progress, 0, 1);
+    const values: ParamValues = {};
+    for (const definition of this.schema) {
+      const { key } = definition;
+      if (!(key in tween.to)) continue;
+      values[key] = lerpParam(
+        definition,
+        tween.from[key],
+        tween.to[key],
+        blend,
+      );
+    }
+    this.assignParams(values);
+  }
+
+  private finishParamTween(): void {
+    if (!this.paramTween) return;
+    const { to } = this.paramTween;
+    this.paramTween = null;
+    this.assignParams(to);
+  }
+
+  private updateCameraTween(now: number): void {
+    const tween = this.cameraTween;
+    if (!tween) return;
+
+    tween.start ??= now;
+    const progress = Math.min((now - tween.start) / tween.duration, 1);
+    const blend = THREE.MathUtils.smootherstep(progress, 0, 1);
+    this.camera.position.lerpVectors(tween.fromPosition, tween.position, blend);
+    this.controls.target.lerpVectors(tween.fromTarget, tween.target, blend);
+    this.camera.lookAt(this.controls.target);
+    if (progress === 1) this.cameraTween = null;
+  }
+
+  private finishCameraTween(): void {
+    if (!this.cameraTween) return;
+    const { position, target } = this.cameraTween;
+    this.cameraTween = null;
+    this.placeCamera(position, target);
+  }
+
+  private placeCamera(position: THREE.Vector3, target: THREE.Vector3): void {
+    this.camera.position.copy(position);
+    this.controls.target.copy(target);
+    this.camera.lookAt(target);
+    this.requestRedraw();
+  }
+
+  /**
+   * Draws one frame on the next animation frame if the scene is stopped,
+   * so a paused or still scene shows param and camera changes. Time doesn't
+   * advance across it.
+   */
+  private requestRedraw = (): void => {
+    if (this.running || this.disposed || this.redrawId !== null) return;
+
+    this.redrawId = requestAnimationFrame((now) => {
+      this.redrawId = null;
+      if (this.running || this.disposed || this.contextLost) return;
+      this.frame(now);
+      this.clock.resetTick();
+      this.governor.resetTiming();
+    });
+  };
+
+  /** Grabbing the camera ends any move it's making. */
+  private handleControlsStart = (): void => {
+    this.cameraTween = null;
   };
 
+  private updateTransition(now: number): void {
+    const transition = this.transition;
+    if (!transition) return;
+
+    transition.start ??= now;
+    const progress = (now - transition.start) / transition.duration;
+    if (progress >= 1) {
+      this.finishTransition();
+      return;
+    }
+    this.transitionPass.setSource(transition.from.drawFrame(now));
+    this.transitionPass.progress = progress;
+  }
+
+  private finishTransition(): void {
+    if (!this.transition) return;
+    const { done } = this.transition;
+    this.transition = null;
+    this.transitionPass.finish();
+    done();
+  }
+
+  /**
+   * Applies an audio-routed or keyframed value without touching the stored
+   * params.
+   */
+  private modulate = (target: string, value: number | string | null): void => {
+    if (target === rotationTarget) {
+      this.torusGroup.rotation.y = THREE.MathUtils.degToRad(
+        (value as number | null) ?? 0,
+      );
+      return;
+    }
+    const axis = cameraTargetAxes[target];
+    if (axis) {
+      // Released camera axes stay put for the controls to take over
+      if (value === null) return;
+      this.camera.position[axis] = value as number;
+      this.camera.lookAt(this.controls.target);
+      return;
+    }
+
+    const definition = this.schema.find((entry) => entry.key === target);
+    if (definition) this.applyParam(definition, value ?? undefined);
+  };
+
+  public getParams(): ParamValues {
+    return { ...this.params } as unknown as ParamValues;
+  }
+
+  public getParamSchema(): ParamSchema<ParamValues> {
+    return this.schema as unknown as ParamSchema<ParamValues>;
+  }
+
+  /**
+   * Applies `values` as if each had been edited in the GUI: values are
+   * clamped to their schema range, and keys the schema doesn't know are
+   * ignored. The geometry is rebuilt at most once.
+   */
+  public setParams(values: ParamValues): void {
+    if (this.paramTween) {
+      for (const key of Object.keys(values)) delete this.paramTween.to[key];
+    }
+    this.assignParams(values);
+  }
+
+  /**
+   * Blends to `values` over `seconds` while the scene runs; a stopped scene
+   * takes them at once. Numbers and colors blend. Selects and params that
+   * rebuild geometry or resize switch at the start, as they can't blend or
+   * are too costly to change every frame.
+   */
+  public tweenParams(values: ParamValues, seconds: number): void {
+    // Blend on from wherever a blend in progress has got to, still taking
+    // its other params to their targets
+    const previous = this.paramTween?.to ?? {};
+    this.paramTween = null;
+    const blended: ParamValues = {};
+    const immediate: ParamValues = {};
+    for (const definition of this.schema) {
+      const { key } = definition;
+      if (!(key in values)) continue;
+
+      const blends =
+        definition.type !== "select" &&
+        !definition.rebuildsGeometry &&
+        !definition.resizes;
+      (blends ? blended : immediate)[key] = values[key];
+    }
+    this.assignParams(immediate);
+    for (const key of Object.keys(previous)) {
+      if (!(key in values)) blended[key] = previous[key];
+    }
+
+    if (!this.running || seconds <= 0) {
+      this.assignParams(blended);
+      return;
+    }
+    this.paramTween = {
+      from: this.getParams(),
+      to: blended,
+      start: null,
+      duration: seconds * 1000,
+    };
+  }
+
+  /** setParams() without interrupting a blend. */
+  private assignParams(values: ParamValues): void {
+    const params = this.params as unknown as ParamValues;
+    let changed = false;
+    let rebuildGeometry = false;
+
+    for (const definition of this.schema) {
+      if (!(definition.key in values)) continue;
+
+      const current = params[definition.key];
+      const value = clampParam(definition, values[definition.key], current);
+      if (value === current) continue;
+
+      params[definition.key] = value;
+      this.applyParam({ ...definition, rebuildsGeometry: false });
+      changed = true;
+      rebuildGeometry = rebuildGeometry || !!definition.rebuildsGeometry;
+      this.controllers.get(definition.key)?.updateDisplay();
+    }
+
+    if (rebuildGeometry) this.updateGeometry();
+    if (changed) this.requestRedraw();
+  }
+
+  /**
+   * Calls `listener` with every param after each edit made in the GUI, but
+   * not for `setParams()`. Returns a function that removes the listener.
+   */
+  public onParamsEdited(listener: (params: ParamValues) => void): () => void {
+    this.paramsListeners.add(listener);
+    return () => this.paramsListeners.delete(listener);
+  }
+
+  /**
+   * Calls `listener` with messages for the user from the scene's own
+   * controls, such as a camera path that failed to load or an audio input
+   * that couldn't start. Returns a function that removes the listener.
+   */
+  public onMessage(listener: (message: string) => void): () => void {
+    this.messageListeners.add(listener);
+    return () => this.messageListeners.delete(listener);
+  }
+
+  private showMessage = (message: string): void => {
+    this.messageListeners.forEach((listener) => listener(message));
+  };
+
+  public getShaderSource(): ShaderSource {
+    return {
+      vertexShader: this.stripeMaterial.vertexShader,
+      fragmentShader: this.stripeMaterial.fragmentShader,
+    };
+  }
+
+  /**
+   * Swaps new source into the stripe material if it compiles. On failure the
+   * last good program keeps rendering and the compiler errors are returned.
+   * Newly declared uniforms get a control in the "Live Uniforms" folder.
+   */
+  public setShaderSource(source: ShaderSource): ShaderError[] {
+    const candidate = this.stripeMaterial.clone();
+    candidate.vertexShader = source.vertexShader;
+    candidate.fragmentShader = source.fragmentShader;
+    const errors = compileShaderMaterial(this.renderer, this.camera, candidate);
+    candidate.dispose();
+    if (errors.length > 0) return errors;
+
+    this.stripeMaterial.vertexShader = source.vertexShader;
+    this.stripeMaterial.fragmentShader = source.fragmentShader;
+    this.stripeMaterial.needsUpdate = true;
+    this.addLiveUniforms(source);
+    return [];
+  }
+
+  /** Adds a glTF/GLB or OBJ file as a shape drawn with the stripe material. */
+  public addModel(file: File): Promise<void> {
+    return this.shapes.addModel(file);
+  }
+
+  public getAudioRoutes(): AudioRoute[] {
+    return this.audioRoutes.getRoutes();
+  }
+
+  public setAudioRoutes(routes: AudioRoute[]): void {
+    this.audioRoutes.setRoutes(routes);
+  }
+
+  public getTimeline(): Timeline {
+    return this.timeline.getTimeline();
+  }
+
+  public setTimeline(timeline: Timeline): void {
+    this.timeline.setTimeline(timeline);
+  }
+
+  /**
+   * Everything a timeline can animate: params mirrored by a uniform or pass
+   * that don't rebuild geometry or resize, the torus rotation and the camera
+   * position.
+   */
+  public getTimelineTargets(): TimelineTarget[] {
+    const targets: TimelineTarget[] = [];
+    for (const definition of this.schema) {
+      if (!definition.uniform && !definition.pass) continue;
+      if (definition.rebuildsGeometry || definition.resizes) continue;
+
+      const { key, label, type } = definition;
+      if (definition.type === "number") {
+        const { min, max } = definition;
+        targets.push({ key, label, type, min, max });
+      } else if (definition.type === "select") {
+        targets.push({
+          key,
+          label,
+          type,
+          options: Object.values(definition.options),
+        });
+      } else {
+        targets.push({ key, label, type });
+      }
+    }
+    targets.push({
+      key: rotationTarget,
+      label: "Torus Rotation",
+      type: "number",
+      min: -180,
+      max: 180,
+    });
+    for (const [key, axis] of Object.entries(cameraTargetAxes)) {
+      targets.push({
+        key,
+        label: `Camera ${axis.toUpperCase()}`,
+        type: "number",
+        min: -100,
+        max: 100,
+      });
+    }
+    return targets;
+  }
+
+  /** The value a target has now, for keyframing it where it is. */
+  public getTargetValue(target: string): number | string {
+    if (target === rotationTarget) {
+      return THREE.MathUtils.radToDeg(this.torusGroup.rotation.y);
+    }
+    const axis = cameraTargetAxes[target];
+    if (axis) return this.camera.position[axis];
+    return (this.params as unknown as ParamValues)[target];
+  }
+
+  /**
+   * Takes over from `previous`, revealing this scene over it with the
+   * transition's shader while both keep animating. `previous` is stopped
+   * and drawn by this scene's loop until the promise resolves, after which
+   * it can be disposed. Stopping this scene cuts the transition short.
+   */
+  public transitionFrom(
+    previous: ShaderScene,
+    transition: Transition,
+  ): Promise<void> {
+    if (this.sharedRenderer) {
+      throw new Error("Scenes sharing a WebGL context can't transition");
+    }
+
+    this.finishTransition();
+    previous.stop();
+    if (transition.kind === "cut" || transition.seconds <= 0) {
+      return Promise.resolve();
+    }
+    this.transitionPass.kind = transition.kind;
+    return new Promise((resolve) => {
+      this.transition = {
+        from: previous,
+        start: null,
+        duration: transition.seconds * 1000,
+        done: resolve,
+      };
+    });
+  }
+
+  /**
+   * Advances and draws one frame outside the render loop, for a scene that's
+   * transitioning away from this one. Returns the canvas it's drawn on.
+   */
+  public drawFrame(now: number): HTMLCanvasElement {
+    if (this.sharedRenderer) {
+      throw new Error("Scenes sharing a WebGL context can't draw on their own");
+    }
+    this.frame(now);
+    return this.renderer.domElement;
+  }
+
+  /**
+   * Flies the camera to `view` over `seconds` while the scene runs; a
+   * stopped scene jumps there. Orbiting with the controls cuts the move
+   * short where it is.
+   */
+  public moveCamera(view: CameraView, seconds: number): void {
+    const position = new THREE.Vector3(...view.position);
+    const target = new THREE.Vector3(...(view.target ?? [0, 0, 0]));
+    if (!this.running || seconds <= 0) {
+      this.cameraTween = null;
+      this.placeCamera(position, target);
+      return;
+    }
+    this.cameraTween = {
+      fromPosition: this.camera.position.clone(),
+      fromTarget: this.controls.target.clone(),
+      position,
+      target,
+      start: null,
+      duration: seconds * 1000,
+    };
+  }
+
+  public setGuiVisible(visible: boolean): void {
+    if (visible) this.gui.show();
+    else this.gui.hide();
+  }
+
+  /** Seconds of scene time for the stripe pattern to repeat exactly. */
+  public stripePeriod(): number {
+    return (
+      stripeRepeatLength(this.params) /
+      (this.params.animationSpeed * shaderTimePerSecond)
+    );
+  }
+
+  /**
+   * Renders a frame sequence at a fixed size and timestep through the normal
+   * render path, handing each frame to `onFrame` while it's on the canvas.
+   * The render loop and on-screen size are restored afterwards.
+   */
+  public async renderFrames(
+    sequence: FrameSequence,
+    onFrame: (canvas: HTMLCanvasElement, index: number) => Promise<void>,
+  ): Promise<void> {
+    if (this.sharedRenderer) {
+      throw new Error("Scenes sharing a WebGL context can't export frames");
+    }
+
+    const wasRunning = this.running;
+    const canvas = this.renderer.domElement;
+    const { width: styleWidth, height: styleHeight } = canvas.style;
+
+    this.stop();
+    // Exports are exactly the requested size, whatever the display density
+    this.resize(sequence.width, sequence.height, 1);
+    // Keep the on-page canvas size while the backing buffer is resized
+    canvas.style.width = styleWidth;
+    canvas.style.height = styleHeight;
+
+    try {
+      for (let index = 0; index < sequence.frameCount; index++) {
+        if (this.disposed) throw new Error("Scene was disposed mid-export");
+
+        const time = sequence.startTime + index / sequence.fps;
+        this.update(time, sequence.holdSpin ? sequence.startTime : time);
+        this.render();
+        await onFrame(canvas, index);
+      }
+    } finally {
+      if (!this.disposed) {
+        this.handleResize();
+        this.update(this.clock.time);
+        if (wasRunning) this.start();
+      }
+    }
+  }
+
+  private addLiveUniforms(source: ShaderSource): void {
+    const declarations = parseUniformDeclarations(
+      `${source.vertexShader}\n${source.fragmentShader}`,
+    );
+
+    for (const { name, type } of declarations) {
+      if (name in this.stripeMaterial.uniforms) continue;
+
+      const initial = liveUniformDefaults[type];
+      this.liveUniforms[name] = initial;
+      this.stripeMaterial.uniforms[name] = {
+        value: type === "vec3" ? new THREE.Color(initial as string) : initial,
+      };
+
+      if (!this.liveUniformFolder) {
+        this.liveUniformFolder = this.gui.addFolder("Live Uniforms");
+        this.liveUniformFolder.open();
+      }
+      const folder = this.liveUniformFolder;
+      let controller: dat.GUIController;
+      if (type === "vec3") {
+        controller = folder.addColor(this.liveUniforms, name);
+      } else if (type === "bool") {
+        controller = folder.add(this.liveUniforms, name);
+      } else if (type === "int") {
+        controller = folder.add(this.liveUniforms, name, 0, 16, 1);
+      } else {
+        controller = folder.add(this.liveUniforms, name, 0, 1, 0.01);
+      }
+      controller.onChange((value) => {
+        const uniform = this.stripeMaterial.uniforms[name];
+        if (type === "vec3") uniform.value.set(value);
+        else uniform.value = value;
+      });
+    }
+  }
+
+  public getStats(): FrameStats {
+    const { calls, triangles } = this.renderer.info.render;
+    return {
+      fps: this.governor.fps,
+      frameMs: this.governor.averageFrameMs,
+      drawCalls: calls,
+      triangles,
+      renderScale: this.governor.renderScale,
+      pixelRatio: this.renderer.getPixelRatio(),
+    };
+  }
+
+  public get running(): boolean {
+    return this.frameId !== null;
+  }
+
+  /** Starts the render loop and resize tracking. No-op if already running. */
+  public start(): void {
+    if (this.disposed || this.running) return;
+    if (this.contextLost) {
+      this.resumeOnRestore = true;
+      return;
+    }
+
+    // Catch up with any resize that happened while stopped
+    this.handleResize();
+    this.resizeObserver.observe(this.container);
+    this.animate();
+  }
+
+  /**
+   * Stops the render loop, finishing any camera move, preset blend or
+   * transition; the scene keeps its GPU resources.
+   */
+  public stop(): void {
+    if (this.frameId === null) return;
+
+    cancelAnimationFrame(this.frameId);
+    this.frameId = null;
+    // None of these can carry on without the loop
+    this.finishCameraTween();
+    this.finishParamTween();
+    this.finishTransition();
+    this.clock.resetTick();
+    this.governor.resetTiming();
+    this.resizeObserver.disconnect();
+  }
+
+  /**
+   * Releases everything the scene created, including the WebGL context and
+   * the canvas unless they're shared, leaving the container as it was before
+   * construction. Safe to call more than once.
+   */
   public dispose(): void {
-    console.log("DISPOSE");
-    window.removeEventListener("resize", this.handleResize);
-    this.controls.dispose();
-    this.renderer.dispose();
+    if (this.disposed) return;
+    this.disposed = true;
+
+    this.stop();
+    // In case they were set up while stopped
+    this.finishParamTween();
+    this.finishTransition();
+    this.audio.dispose();
+    for (const pass of this.composer.passes) pass.dispose();
     this.composer.dispose();
+    this.upscaler.dispose();
+    this.controls.removeEventListener("start", this.handleControlsStart);
+    this.controls.removeEventListener("change", this.requestRedraw);
+    if (this.redrawId !== null) cancelAnimationFrame(this.redrawId);
+    this.controls.dispose();
+    this.interaction.dispose();
+    this.autopilot.dispose();
     this.gui.destroy();
-    this.torus1.geometry.dispose();
-    this.torus2.geometry.dispose();
-    (this.torus1.material as THREE.Material).dispose();
+    // Only an auto-placed GUI is removed by destroy()
+    this.gui.domElement.remove();
+    this.controllers.clear();
+    this.paramsListeners.clear();
+    this.messageListeners.clear();
+    this.shapes.dispose();
+    this.field.dispose();
+    this.stripeMaterial.dispose();
     this.torusGroup.clear();
+    this.scene.clear();
+    this.renderer.domElement.removeEventListener(
+      "webglcontextlost",
+      this.handleContextLost,
+    );
+    this.renderer.domElement.removeEventListener(
+      "webglcontextrestored",
+      this.handleContextRestored,
+    );
+    if (this.detachView) {
+      this.detachView();
+    } else {
+      this.renderer.dispose();
+      this.renderer.forceContextLoss();
+      this.container.removeChild(this.renderer.domElement);
+    }
   }
 }
@@ -0,0 +1,239 @@
+import * as THREE from "three";
+import { UnrealBloomPass } from "three/examples/jsm/postprocessing/UnrealBloomPass";
+import { depthParamSchema } from "./depthShading";
+import { DitherParams, ditherParamSchema, DitherPass } from "./ditherPass";
+import { interactionParamSchema, pointerUniforms } from "./interaction";
+import { ParamSchema, uniformsFromSchema } from "./params";
+import { Preset } from "./presets";
+import { retroParamSchema } from "./retro";
+import {
+  stripePatternChunk,
+  stripePatternParamSchema,
+  stripeVertexShader,
+} from "./stripePattern";
+import { torusFieldParamSchema } from "./torusField";
+import {
+  Scene,
+  SceneOptions,
+  SceneParams,
+  stripeParamSchema,
+  torusParamSchema,
+} from "./scene";
+
+export interface BloomStripesParams extends SceneParams, DitherParams {
+  bloomStrength: number;
+  bloomRadius: number;
+  bloomThreshold: number;
+}
+
+const defaultParams: BloomStripesParams = {
+  stripeWidth: 0.035,
+  stripeSpacing: 0.5,
+  animationSpeed: 0.35,
+  torusRadius: 10,
+  tubeRadius: 3,
+  radialSegments: 16,
+  tubularSegments: 16,
+  stripeSpace: "view",
+  stripeAngle: 180, // Stripes travel down the screen
+  stripeTwist: 2,
+  stripeBands: 1,
+  stripeWidth2: 0.1,
+  stripeWidth3: 0.02,
+  stripeColorMode: "solid",
+  stripeColor: "#ffffff",
+  stripeColor2: "#3a7bff",
+  stripeRampLength: 6,
+  depthFit: "manual",
+  fogMode: "linear",
+  fogNear: 20,
+  fogFar: 40,
+  fogDensity: 0.05,
+  fogColor: "#000000",
+  fogStrength: 0.98,
+  depthView: "off",
+  retroResolution: "off",
+  retroPixelSize: 3,
+  interactionMode: "orbit",
+  rippleStrength: 0.5,
+  rippleRadius: 4,
+  pulseStrength: 2.0,
+  fieldLayout: "off",
+  fieldCount: 600,
+  fieldSpacing: 4,
+  fieldDepth: -25,
+  fieldScale: 0.15,
+  fieldScaleJitter: 0.3,
+  fieldColorJitter: 0,
+  fieldSpin: 0.5,
+  fieldBob: 0.5,
+  bloomStrength: 1.5,
+  bloomRadius: 0.4,
+  bloomThreshold: 0.85,
+  ditherMode: "bayer4",
+  ditherQuantize: "one-bit",
+  ditherLevels: 4,
+  ditherPalette: "gameboy",
+  ditherShadow: "#000000",
+  ditherHighlight: "#ffffff",
+  ditherSize: 1.0,
+  ditherMix: 0.0, // Off by default; bloom alone is the look of this scene
+  ditherDepthScale: 40.0,
+  ditherContrast: 0.8,
+};
+
+const schema: ParamSchema<BloomStripesParams> = [
+  ...stripeParamSchema,
+  ...stripePatternParamSchema,
+  {
+    key: "bloomStrength",
+    label: "Strength",
+    type: "number",
+    min: 0.0,
+    max: 3.0,
+    step: 0.05,
+    folder: "Bloom",
+    pass: "bloom.strength",
+  },
+  {
+    key: "bloomRadius",
+    label: "Radius",
+    type: "number",
+    min: 0.0,
+    max: 1.0,
+    step: 0.01,
+    folder: "Bloom",
+    pass: "bloom.radius",
+  },
+  {
+    key: "bloomThreshold",
+    label: "Threshold",
+    type: "number",
+    min: 0.0,
+    max: 1.0,
+    step: 0.05,
+    folder: "Bloom",
+    pass: "bloom.threshold",
+  },
+  ...depthParamSchema,
+  ...ditherParamSchema,
+  ...retroParamSchema,
+  ...interactionParamSchema,
+  ...torusFieldParamSchema,
+  ...torusParamSchema,
+];
+
+export const bloomStripesPresets: Preset[] = [
+  { name: "Default", params: { ...defaultParams } },
+  {
+    name: "Neon Haze",
+    params: {
+      ...defaultParams,
+      stripeSpacing: 0.3,
+      stripeColor: "#ff3cac",
+      bloomStrength: 2.4,
+      bloomRadius: 0.8,
+      bloomThreshold: 0.2,
+    },
+  },
+  {
+    name: "Fine Lines",
+    params: {
+      ...defaultParams,
+      stripeWidth: 0.02,
+      stripeSpacing: 0.2,
+      stripeColor: "#9be7ff",
+      bloomStrength: 0.8,
+    },
+  },
+  {
+    name: "Spiral Ramp",
+    params: {
+      ...defaultParams,
+      stripeSpace: "uv-spiral",
+      stripeBands: 2,
+      stripeColorMode: "stripes",
+      stripeColor: "#ff3cac",
+      stripeColor2: "#2b86c5",
+      bloomStrength: 1.8,
+      bloomThreshold: 0.4,
+    },
+  },
+  {
+    name: "Torus Swarm",
+    params: {
+      ...defaultParams,
+      fieldLayout: "spiral",
+      fieldCount: 1500,
+      fieldSpacing: 2.5,
+      fieldColorJitter: 0.7,
+      fieldSpin: 1.2,
+      fieldBob: 1.0,
+      stripeSpace: "object",
+      bloomStrength: 1.2,
+    },
+  },
+];
+
+export class BloomStripesScene extends Scene<BloomStripesParams> {
+  private bloomPass: UnrealBloomPass;
+
+  constructor(container: HTMLDivElement, options?: SceneOptions) {
+    super(
+      container,
+      schema,
+      { ...defaultParams },
+      {
+        antialias: true,
+        powerPreference: "high-performance",
+      },
+      options,
+    );
+
+    // Add bloom pass
+    this.bloomPass = new UnrealBloomPass(this.viewSize(), 1.5, 0.4, 0.85);
+    this.addPass("bloom", this.bloomPass);
+
+    // Dither the bloomed image
+    this.addPass("dither", new DitherPass(this.camera));
+
+    this.init();
+  }
+
+  protected applyRenderScale(scale: number): void {
+    // Skip the widest blurs as the render scale drops; the pass resizes the
+    // remaining levels when the composer does
+    const mips = scale >= 0.85 ? 5 : scale >= 0.65 ? 4 : 3;
+    this.bloomPass.nMips = mips;
+    // A black tint drops a level's stale texture from the composite
+    this.bloomPass.bloomTintColors.forEach((tint, index) =>
+      tint.setScalar(index < mips ? 1 : 0),
+    );
+    super.applyRenderScale(scale);
+  }
+
+  protected setupMaterial(): void {
+    this.stripeMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        time: { value: 0 },
+        spinTime: { value: 0 },
+        ...pointerUniforms(),
+        ...uniformsFromSchema(this.schema, this.params),
+      },
+      vertexShader: stripeVertexShader,
+      fragmentShader: `
+        ${stripePatternChunk}
+
+        void main() {
+            vec3 lineColor;
+            float line = stripePattern(lineColor);
+
+            vec3 finalColor = mix(vec3(0.0), lineColor, line);
+            gl_FragColor = vec4(applyDepthFog(finalColor), 1.0);
+        }
+      `,
+      transparent: false,
+      side: THREE.FrontSide,
+    });
+  }
+}
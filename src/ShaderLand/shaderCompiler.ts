@@ -0,0 +1,114 @@
+import * as THREE from "three";
+
+export interface ShaderSource {
+  vertexShader: string;
+  fragmentShader: string;
+}
+
+export interface ShaderError {
+  stage: "vertex" | "fragment" | "link";
+  /** 1-based line in the editable source, when the log names one */
+  line: number | null;
+  message: string;
+}
+
+export type LiveUniformType = "float" | "int" | "bool" | "vec3";
+
+export interface UniformDeclaration {
+  name: string;
+  type: LiveUniformType;
+}
+
+const errorLinePattern = /^(?:ERROR|WARNING):\s*\d+:(\d+):\s*(.*)$/;
+const uniformPattern = /^\s*uniform\s+(float|int|bool|vec3)\s+(\w+)\s*;/gm;
+
+/**
+ * Compiles `material` by drawing it once into a 1x1 target and returns the
+ * GLSL compiler errors, mapped back to lines of the material's own source.
+ * An empty result means the program is usable.
+ */
+export function compileShaderMaterial(
+  renderer: THREE.WebGLRenderer,
+  camera: THREE.Camera,
+  material: THREE.ShaderMaterial,
+): ShaderError[] {
+  const errors: ShaderError[] = [];
+  const previousHandler = renderer.debug.onShaderError;
+  renderer.debug.onShaderError = (
+    gl,
+    program,
+    vertexShader,
+    fragmentShader,
+  ) => {
+    errors.push(
+      ...readShaderErrors(gl, vertexShader, "vertex", material.vertexShader),
+      ...readShaderErrors(
+        gl,
+        fragmentShader,
+        "fragment",
+        material.fragmentShader,
+      ),
+    );
+    if (errors.length === 0) {
+      const log = gl.getProgramInfoLog(program)?.trim();
+      errors.push({ stage: "link", line: null, message: log || "Link failed" });
+    }
+  };
+
+  const geometry = new THREE.PlaneGeometry();
+  const probe = new THREE.Mesh(geometry, material);
+  probe.frustumCulled = false;
+  const probeScene = new THREE.Scene().add(probe);
+  const target = new THREE.WebGLRenderTarget(1, 1);
+  const previousTarget = renderer.getRenderTarget();
+
+  try {
+    renderer.setRenderTarget(target);
+    renderer.render(probeScene, camera);
+  } finally {
+    renderer.setRenderTarget(previousTarget);
+    renderer.debug.onShaderError = previousHandler;
+    target.dispose();
+    geometry.dispose();
+  }
+  return errors;
+}
+
+/** Finds `uniform` declarations of types the GUI can offer a control for. */
+export function parseUniformDeclarations(source: string): UniformDeclaration[] {
+  const declarations: UniformDeclaration[] = [];
+  for (const match of Array.from(source.matchAll(uniformPattern))) {
+    declarations.push({ type: match[1] as LiveUniformType, name: match[2] });
+  }
+  return declarations;
+}
+
+function readShaderErrors(
+  gl: WebGLRenderingContext,
+  shader: WebGLShader,
+  stage: "vertex" | "fragment",
+  source: string,
+): ShaderError[] {
+  if (gl.getShaderParameter(shader, gl.COMPILE_STATUS)) return [];
+
+  // three.js prepends its own prefix; find where the editable source begins
+  const fullSource = gl.getShaderSource(shader) ?? "";
+  const firstLine = source.trim().split("\n")[0];
+  const start = firstLine ? fullSource.indexOf(firstLine) : -1;
+  const offset = start < 0 ? 0 : fullSource.slice(0, start).split("\n").length;
+  const leadingLines = source.length - source.trimStart().length;
+  const skipped = source.slice(0, leadingLines).split("\n").length - 1;
+
+  const log = gl.getShaderInfoLog(shader) ?? "";
+  return log
+    .split("\n")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== "" && !entry.startsWith("\0"))
+    .map((entry) => {
+      const match = entry.match(errorLinePattern);
+      if (!match) return { stage, line: null, message: entry };
+
+      const line = Number(match[1]) - offset + 1 + skipped;
+      return { stage, line: line > 0 ? line : null, message: match[2] };
+    });
+}
@@ -0,0 +1,387 @@
+import * as THREE from "three";
+import { ParametricGeometry } from "three/examples/jsm/geometries/ParametricGeometry";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader";
+import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader";
+import * as dat from "dat.gui";
+
+export type ShapeKind =
+  | "torus"
+  | "torusKnot"
+  | "sphere"
+  | "mobius"
+  | "klein"
+  | "seashell";
+
+export type ShapeOptions = Record<string, number>;
+
+/** Scene-wide torus dimensions, shared by every "torus" shape */
+export interface TorusDimensions {
+  torusRadius: number;
+  tubeRadius: number;
+  radialSegments: number;
+  tubularSegments: number;
+}
+
+export interface ShapeDeclaration {
+  kind: ShapeKind;
+  name: string;
+  position?: [number, number, number];
+  /** Euler angles in radians */
+  rotation?: [number, number, number];
+  scale?: number;
+  options?: ShapeOptions;
+}
+
+interface ShapeOption {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+interface ShapeSource {
+  label: string;
+  defaults: ShapeOptions;
+  options: ShapeOption[];
+  build: (
+    options: ShapeOptions,
+    torus: TorusDimensions,
+  ) => THREE.BufferGeometry;
+}
+
+interface Shape {
+  name: string;
+  kind: ShapeKind | "model";
+  object: THREE.Object3D;
+  options: ShapeOptions;
+  folder: dat.GUI;
+}
+
+/** Size that dropped models are scaled to, as a bounding-sphere radius */
+const modelRadius = 8;
+
+const shapeSources: Record<ShapeKind, ShapeSource> = {
+  torus: {
+    label: "Torus",
+    defaults: {},
+    options: [],
+    build: (_, torus) =>
+      new THREE.TorusGeometry(
+        torus.torusRadius,
+        torus.tubeRadius,
+        torus.radialSegments,
+        torus.tubularSegments,
+      ),
+  },
+  torusKnot: {
+    label: "Torus Knot",
+    defaults: { radius: 7, tube: 1.8, p: 2, q: 3 },
+    options: [
+      { key: "radius", label: "Radius", min: 2, max: 15, step: 0.5 },
+      { key: "tube", label: "Tube", min: 0.2, max: 5, step: 0.1 },
+      { key: "p", label: "P", min: 1, max: 10, step: 1 },
+      { key: "q", label: "Q", min: 1, max: 10, step: 1 },
+    ],
+    build: ({ radius, tube, p, q }) =>
+      new THREE.TorusKnotGeometry(radius, tube, 160, 16, p, q),
+  },
+  sphere: {
+    label: "Sphere",
+    defaults: { radius: 7 },
+    options: [{ key: "radius", label: "Radius", min: 1, max: 15, step: 0.5 }],
+    build: ({ radius }) => new THREE.SphereGeometry(radius, 48, 32),
+  },
+  mobius: {
+    label: "Möbius Strip",
+    defaults: { radius: 8, width: 3, twists: 1 },
+    options: [
+      { key: "radius", label: "Radius", min: 2, max: 15, step: 0.5 },
+      { key: "width", label: "Width", min: 0.5, max: 8, step: 0.1 },
+      { key: "twists", label: "Half Twists", min: 1, max: 7, step: 2 },
+    ],
+    build: ({ radius, width, twists }) =>
+      new ParametricGeometry(
+        (u, v, target) => {
+          const angle = u * Math.PI * 2;
+          const offset = (v - 0.5) * width;
+          const twist = (angle * twists) / 2;
+          target.set(
+            (radius + offset * Math.cos(twist)) * Math.cos(angle),
+            (radius + offset * Math.cos(twist)) * Math.sin(angle),
+            offset * Math.sin(twist),
+          );
+        },
+        128,
+        16,
+      ),
+  },
+  klein: {
+    label: "Klein Bottle",
+    defaults: { size: 2.5 },
+    options: [{ key: "size", label: "Size", min: 0.5, max: 5, step: 0.1 }],
+    build: ({ size }) =>
+      new ParametricGeometry(
+        (u, v, target) => {
+          // Figure-8 immersion
+          const a = u * Math.PI * 2;
+          const b = v * Math.PI * 2;
+          const r =
+            3 +
+            Math.cos(a / 2) * Math.sin(b) -
+            Math.sin(a / 2) * Math.sin(2 * b);
+          target.set(
+            r * Math.cos(a) * size,
+            r * Math.sin(a) * size,
+            (Math.sin(a / 2) * Math.sin(b) +
+              Math.cos(a / 2) * Math.sin(2 * b)) *
+              size,
+          );
+        },
+        96,
+        48,
+      ),
+  },
+  seashell: {
+    label: "Seashell",
+    defaults: { size: 4 },
+    options: [{ key: "size", label: "Size", min: 1, max: 8, step: 0.5 }],
+    build: ({ size }) =>
+      new ParametricGeometry(
+        (u, v, target) => {
+          const a = u * Math.PI * 6;
+          const b = v * Math.PI * 2;
+          const growth = Math.exp(a / (6 * Math.PI));
+          const ring = Math.cos(b / 2) ** 2;
+          target.set(
+            2 * (1 - growth) * Math.cos(a) * ring * size,
+            2 * (growth - 1) * Math.sin(a) * ring * size,
+            (1 -
+              Math.exp(a / (3 * Math.PI)) -
+              Math.sin(b) +
+              growth * Math.sin(b)) *
+              size,
+          );
+        },
+        128,
+        32,
+      ),
+  },
+};
+
+/**
+ * The meshes a scene draws with its stripe material. Each shape gets its own
+ * GUI folder with a transform and the options of its kind; shapes can be
+ * added from the GUI or by dropping glTF/OBJ files onto the canvas.
+ */
+export class ShapeSet {
+  private group: THREE.Group;
+  private material: THREE.Material;
+  private torus: () => TorusDimensions;
+  private folder: dat.GUI;
+  private shapes: Shape[] = [];
+  private disposed = false;
+  private addControls = {
+    kind: "torusKnot" as ShapeKind,
+    add: () => {
+      const kind = this.addControls.kind;
+      this.add({ kind, name: shapeSources[kind].label });
+    },
+  };
+
+  constructor(
+    group: THREE.Group,
+    material: THREE.Material,
+    gui: dat.GUI,
+    torus: () => TorusDimensions,
+  ) {
+    this.group = group;
+    this.material = material;
+    this.torus = torus;
+
+    this.folder = gui.addFolder("Shapes");
+    const kinds: Record<string, string> = {};
+    for (const [kind, source] of Object.entries(shapeSources)) {
+      kinds[source.label] = kind;
+    }
+    this.folder.add(this.addControls, "kind", kinds).name("New Shape");
+    this.folder.add(this.addControls, "add").name("Add Shape");
+  }
+
+  /** All meshes currently drawn, including those inside loaded models. */
+  public get meshes(): THREE.Mesh[] {
+    const meshes: THREE.Mesh[] = [];
+    this.group.traverse((object) => {
+      if (object instanceof THREE.Mesh) meshes.push(object);
+    });
+    return meshes;
+  }
+
+  public add(declaration: ShapeDeclaration): void {
+    const source = shapeSources[declaration.kind];
+    const options = { ...source.defaults, ...declaration.options };
+    const mesh = new THREE.Mesh(
+      source.build(options, this.torus()),
+      this.material,
+    );
+
+    const shape = this.track(
+      declaration.name,
+      declaration.kind,
+      mesh,
+      options,
+      declaration,
+    );
+    for (const option of source.options) {
+      shape.folder
+        .add(shape.options, option.key, option.min, option.max, option.step)
+        .name(option.label)
+        .onChange(() => this.rebuild(shape));
+    }
+  }
+
+  /** Loads a glTF/GLB or OBJ file as a new shape, normalized to scene size. */
+  public async addModel(file: File): Promise<void> {
+    const extension = file.name.split(".").pop()?.toLowerCase();
+    let model: THREE.Object3D;
+    if (extension === "gltf" || extension === "glb") {
+      const gltf = await new GLTFLoader().parseAsync(
+        await file.arrayBuffer(),
+        "",
+      );
+      model = gltf.scene;
+    } else if (extension === "obj") {
+      model = new OBJLoader().parse(await file.text());
+    } else {
+      throw new Error(`${file.name} is not a .gltf, .glb or .obj file`);
+    }
+    if (this.disposed) {
+      disposeGeometries(model);
+      return;
+    }
+
+    // Drop the file's own materials in favour of the stripe material
+    model.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        const materials = Array.isArray(object.material)
+          ? object.material
+          : [object.material];
+        materials.forEach((material) => material.dispose());
+        object.material = this.material;
+      }
+    });
+
+    // Center the model and scale it to a comparable size
+    const sphere = new THREE.Box3()
+      .setFromObject(model)
+      .getBoundingSphere(new THREE.Sphere());
+    const wrapper = new THREE.Group();
+    model.position.sub(sphere.center);
+    wrapper.add(model);
+
+    this.track(
+      file.name,
+      "model",
+      wrapper,
+      {},
+      {
+        scale: sphere.radius > 0 ? modelRadius / sphere.radius : 1,
+      },
+    );
+  }
+
+  /** Rebuilds every "torus" shape after the scene's torus params change. */
+  public rebuildToruses(): void {
+    this.shapes
+      .filter((shape) => shape.kind === "torus")
+      .forEach((shape) => this.rebuild(shape));
+  }
+
+  public remove(shape: Shape): void {
+    this.shapes = this.shapes.filter((entry) => entry !== shape);
+    this.group.remove(shape.object);
+    this.folder.removeFolder(shape.folder);
+    disposeGeometries(shape.object);
+  }
+
+  /** Frees every shape's geometry. The GUI is left to its owner to destroy. */
+  public dispose(): void {
+    this.disposed = true;
+    this.shapes.forEach((shape) => disposeGeometries(shape.object));
+    this.shapes = [];
+  }
+
+  private track(
+    name: string,
+    kind: ShapeKind | "model",
+    object: THREE.Object3D,
+    options: ShapeOptions,
+    transform: Omit<ShapeDeclaration, "kind" | "name">,
+  ): Shape {
+    const [x, y, z] = transform.position ?? [0, 0, 0];
+    const [rotationX, rotationY, rotationZ] = transform.rotation ?? [0, 0, 0];
+    object.position.set(x, y, z);
+    object.rotation.set(rotationX, rotationY, rotationZ);
+    object.scale.setScalar(transform.scale ?? 1);
+    this.group.add(object);
+
+    const shape: Shape = {
+      name,
+      kind,
+      object,
+      options,
+      folder: this.folder.addFolder(this.uniqueFolderName(name)),
+    };
+    this.shapes.push(shape);
+
+    const { folder } = shape;
+    folder.add(object.position, "x", -30, 30, 0.1).name("Position X");
+    folder.add(object.position, "y", -30, 30, 0.1).name("Position Y");
+    folder.add(object.position, "z", -30, 30, 0.1).name("Position Z");
+    const degrees = {
+      x: THREE.MathUtils.radToDeg(object.rotation.x),
+      y: THREE.MathUtils.radToDeg(object.rotation.y),
+      z: THREE.MathUtils.radToDeg(object.rotation.z),
+    };
+    (["x", "y", "z"] as const).forEach((axis) => {
+      folder
+        .add(degrees, axis, -180, 180, 1)
+        .name(`Rotation ${axis.toUpperCase()}`)
+        .onChange((value: number) => {
+          object.rotation[axis] = THREE.MathUtils.degToRad(value);
+        });
+    });
+    const scale = { value: object.scale.x };
+    folder
+      .add(scale, "value", 0.05, 5, 0.05)
+      .name("Scale")
+      .onChange((value: number) => object.scale.setScalar(value));
+    folder.add({ remove: () => this.remove(shape) }, "remove").name("Remove");
+
+    return shape;
+  }
+
+  private rebuild(shape: Shape): void {
+    if (!(shape.object instanceof THREE.Mesh) || shape.kind === "model") return;
+
+    shape.object.geometry.dispose();
+    shape.object.geometry = shapeSources[shape.kind].build(
+      shape.options,
+      this.torus(),
+    );
+  }
+
+  private uniqueFolderName(name: string): string {
+    let candidate = name;
+    for (let index = 2; candidate in this.folder.__folders; index++) {
+      candidate = `${name} ${index}`;
+    }
+    return candidate;
+  }
+}
+
+function disposeGeometries(object: THREE.Object3D): void {
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh) child.geometry.dispose();
+  });
+}
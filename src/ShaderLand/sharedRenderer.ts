@@ -0,0 +1,119 @@
+import * as THREE from "three";
+
+/** Pixel ratio cap for the shared canvas; scenes scale their own targets */
+const maxPixelRatio = 2;
+
+/**
+ * One WebGL context for several scenes on a page, which browsers cap at a
+ * handful of live contexts. The canvas covers the viewport behind the page
+ * and each scene draws into its container's rect, so containers must be
+ * transparent. Scrolling or resizing redraws every scene where it now is.
+ */
+export class SharedRenderer {
+  public readonly renderer: THREE.WebGLRenderer;
+  private views = new Set<() => void>();
+  private redrawId: number | null = null;
+  private disposed = false;
+
+  constructor(parameters: THREE.WebGLRendererParameters = {}) {
+    // Scenes that stop rendering must keep their last frame on the canvas
+    this.renderer = new THREE.WebGLRenderer({
+      ...parameters,
+      preserveDrawingBuffer: true,
+    });
+    this.renderer.setPixelRatio(
+      Math.min(window.devicePixelRatio || 1, maxPixelRatio),
+    );
+    this.renderer.setSize(window.innerWidth, window.innerHeight);
+    this.renderer.info.autoReset = false;
+
+    const { style } = this.renderer.domElement;
+    style.position = "fixed";
+    style.top = "0";
+    style.left = "0";
+    style.zIndex = "-1";
+    style.pointerEvents = "none";
+    document.body.appendChild(this.renderer.domElement);
+
+    window.addEventListener("resize", this.handleResize);
+    // Captured so scrolling inside any element is seen too
+    window.addEventListener("scroll", this.scheduleRedraw, {
+      capture: true,
+      passive: true,
+    });
+  }
+
+  /**
+   * Registers a scene's `draw`, called to redraw its current frame whenever
+   * the page moves under it. Returns a function that unregisters it.
+   */
+  public attach(draw: () => void): () => void {
+    this.views.add(draw);
+    return () => {
+      this.views.delete(draw);
+      if (this.disposed && this.views.size === 0) this.release();
+      else this.scheduleRedraw();
+    };
+  }
+
+  /**
+   * Sets `target` to `element`'s rect on the canvas in CSS pixels, measured
+   * from the bottom left as WebGL expects. Returns false when none of the
+   * element is on screen.
+   */
+  public viewport(element: HTMLElement, target: THREE.Vector4): boolean {
+    const rect = element.getBoundingClientRect();
+    const { clientWidth, clientHeight } = this.renderer.domElement;
+    if (
+      rect.bottom <= 0 ||
+      rect.right <= 0 ||
+      rect.top >= clientHeight ||
+      rect.left >= clientWidth
+    ) {
+      return false;
+    }
+    target.set(rect.left, clientHeight - rect.bottom, rect.width, rect.height);
+    return true;
+  }
+
+  /**
+   * Frees the context and canvas once every scene drawing through it has
+   * been disposed, whichever happens last.
+   */
+  public dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+    if (this.views.size === 0) this.release();
+  }
+
+  private release(): void {
+    if (this.redrawId !== null) cancelAnimationFrame(this.redrawId);
+    this.redrawId = null;
+    window.removeEventListener("resize", this.handleResize);
+    window.removeEventListener("scroll", this.scheduleRedraw, {
+      capture: true,
+    });
+    this.renderer.dispose();
+    this.renderer.forceContextLoss();
+    this.renderer.domElement.remove();
+  }
+
+  private handleResize = (): void => {
+    // Resizing clears the canvas, so redraw straight away
+    this.renderer.setSize(window.innerWidth, window.innerHeight);
+    this.redraw();
+  };
+
+  private scheduleRedraw = (): void => {
+    if (this.redrawId === null && !this.disposed) {
+      this.redrawId = requestAnimationFrame(this.redraw);
+    }
+  };
+
+  private redraw = (): void => {
+    this.redrawId = null;
+    this.renderer.setScissorTest(false);
+    this.renderer.clear();
+    this.views.forEach((draw) => draw());
+  };
+}
@@ -0,0 +1,262 @@
+import { depthShadingChunk } from "./depthShading";
+import { pointerChunk } from "./interaction";
+import { ParamSchema } from "./params";
+import { instanceChunk } from "./torusField";
+
+export interface StripePatternParams {
+  stripeSpace: string;
+  stripeAngle: number; // Degrees; 0 runs the stripes along +Y
+  stripeTwist: number; // Turns of the torus spiral
+  stripeBands: number;
+  stripeWidth2: number;
+  stripeWidth3: number;
+  stripeColorMode: string;
+  stripeColor: string;
+  stripeColor2: string;
+  stripeRampLength: number; // Stripes from one gradient color to the other
+}
+
+/** Widths are read from these keys, in band order */
+const bandWidthKeys = ["stripeWidth", "stripeWidth2", "stripeWidth3"] as const;
+
+export const stripePatternParamSchema: ParamSchema<StripePatternParams> = [
+  {
+    key: "stripeSpace",
+    label: "Space",
+    type: "select",
+    options: {
+      "View Space": "view",
+      "World Space": "world",
+      "Object Space": "object",
+      "Torus Rings": "uv-rings",
+      "Torus Spiral": "uv-spiral",
+      Radial: "radial",
+    },
+    folder: "Stripe Pattern",
+    uniform: "stripeSpace",
+  },
+  {
+    key: "stripeAngle",
+    label: "Angle",
+    type: "number",
+    min: -180,
+    max: 180,
+    step: 1,
+    folder: "Stripe Pattern",
+    uniform: "stripeAngle",
+  },
+  {
+    key: "stripeTwist",
+    label: "Spiral Twist",
+    type: "number",
+    min: 1,
+    max: 8,
+    step: 1,
+    folder: "Stripe Pattern",
+    uniform: "stripeTwist",
+  },
+  {
+    key: "stripeBands",
+    label: "Bands",
+    type: "number",
+    min: 1,
+    max: bandWidthKeys.length,
+    step: 1,
+    folder: "Stripe Pattern",
+    uniform: "stripeBands",
+  },
+  {
+    key: "stripeWidth2",
+    label: "Band 2 Width",
+    type: "number",
+    min: 0.01,
+    max: 0.5,
+    step: 0.01,
+    folder: "Stripe Pattern",
+    uniform: "stripeWidth2",
+  },
+  {
+    key: "stripeWidth3",
+    label: "Band 3 Width",
+    type: "number",
+    min: 0.01,
+    max: 0.5,
+    step: 0.01,
+    folder: "Stripe Pattern",
+    uniform: "stripeWidth3",
+  },
+  {
+    key: "stripeColorMode",
+    label: "Color Mode",
+    type: "select",
+    options: {
+      Solid: "solid",
+      "Across Bands": "bands",
+      "Across Stripes": "stripes",
+      "Along Depth": "depth",
+    },
+    folder: "Material",
+    uniform: "stripeColorMode",
+  },
+  {
+    key: "stripeColor",
+    label: "Stripe Color",
+    type: "color",
+    folder: "Material",
+    uniform: "stripeColor",
+  },
+  {
+    key: "stripeColor2",
+    label: "Gradient Color",
+    type: "color",
+    folder: "Material",
+    uniform: "stripeColor2",
+  },
+  {
+    key: "stripeRampLength",
+    label: "Ramp Length",
+    type: "number",
+    min: 2,
+    max: 16,
+    step: 1,
+    folder: "Material",
+    uniform: "stripeRampLength",
+  },
+];
+
+/**
+ * Length of one repeat of the stripe pattern along its coordinate, including
+ * the color cycle when colors ramp across stripes.
+ */
+export function stripeRepeatLength(
+  params: StripePatternParams & { stripeWidth: number; stripeSpacing: number },
+): number {
+  let length = 0;
+  for (let band = 0; band < Math.round(params.stripeBands); band++) {
+    length += params[bandWidthKeys[band]] + params.stripeSpacing;
+  }
+  // The ramp ping-pongs, so colors repeat every two ramp lengths
+  return params.stripeColorMode === "stripes"
+    ? length * Math.round(params.stripeRampLength) * 2
+    : length;
+}
+
+/**
+ * Vertex shader shared by the stripe materials. Exposes every position the
+ * pattern can be laid out in, and animates instanced meshes.
+ */
+export const stripeVertexShader = `
+        varying vec3 vViewPosition;
+        varying vec3 vWorldPosition;
+        varying vec3 vObjectPosition;
+        varying vec2 vStripeUv;
+        varying float vViewDepth;
+        varying vec3 vInstanceTint;
+
+        ${instanceChunk}
+
+        void main() {
+            vec4 worldPosition = modelMatrix * vec4(instancePosition(position), 1.0);
+            vec4 viewPosition = viewMatrix * worldPosition;
+            vViewPosition = viewPosition.xyz;
+            vWorldPosition = worldPosition.xyz;
+            vObjectPosition = position;
+            vStripeUv = uv;
+            vViewDepth = -viewPosition.z;
+            vInstanceTint = instanceTint();
+
+            gl_Position = projectionMatrix * viewPosition;
+        }
+`;
+
+/**
+ * Fragment shader declarations for the stripe pattern, including depth
+ * shading and pointer effects. `stripePattern()` returns the stripe mask and
+ * writes the stripe's color.
+ */
+export const stripePatternChunk = `
+        ${depthShadingChunk}
+
+        uniform float time;
+        uniform float speed;
+        uniform float stripeWidth;
+        uniform float stripeSpacing;
+        uniform int stripeSpace;
+        uniform float stripeAngle;
+        uniform float stripeTwist;
+        uniform float stripeBands;
+        uniform float stripeWidth2;
+        uniform float stripeWidth3;
+        uniform int stripeColorMode;
+        uniform vec3 stripeColor;
+        uniform vec3 stripeColor2;
+        uniform float stripeRampLength;
+
+        varying vec3 vViewPosition;
+        varying vec3 vWorldPosition;
+        varying vec3 vObjectPosition;
+        varying vec2 vStripeUv;
+        varying vec3 vInstanceTint;
+
+        ${pointerChunk}
+
+        // Pattern units per torus UV / per unit of screen radius
+        #define UV_SCALE 60.0
+        #define RADIAL_SCALE 20.0
+
+        float bandWidth(int band) {
+            if (band == 0) return stripeWidth;
+            if (band == 1) return stripeWidth2;
+            return stripeWidth3;
+        }
+
+        float patternLength() {
+            float total = 0.0;
+            for (int band = 0; band < 3; band++) {
+                if (float(band) < stripeBands) total += bandWidth(band) + stripeSpacing;
+            }
+            return total;
+        }
+
+        float stripeCoordinate(float repeatLength) {
+            float angle = radians(stripeAngle);
+            vec2 direction = vec2(sin(angle), cos(angle));
+            if (stripeSpace == 0) return dot(vViewPosition.xy, direction);
+            if (stripeSpace == 1) return dot(vWorldPosition.xy, direction);
+            if (stripeSpace == 2) return dot(vObjectPosition.xy, direction);
+
+            // Whole repeats around the torus so the UV seam doesn't show
+            float rings = max(floor(UV_SCALE / repeatLength), 1.0) * repeatLength;
+            if (stripeSpace == 3) return vStripeUv.x * rings;
+            if (stripeSpace == 4) return vStripeUv.x * rings + vStripeUv.y * stripeTwist * repeatLength;
+
+            // Perspective-divided, so rings stay centered on screen
+            return length(vViewPosition.xy / -vViewPosition.z) * RADIAL_SCALE;
+        }
+
+        float stripePattern(out vec3 color) {
+            float repeatLength = patternLength();
+            float position = stripeCoordinate(repeatLength) + time * speed + pointerRipple();
+            float offset = mod(position, repeatLength);
+            float stripeIndex = floor(position / repeatLength);
+
+            float line = 0.0;
+            float band = 0.0;
+            float start = 0.0;
+            for (int i = 0; i < 3; i++) {
+                float width = bandWidth(i);
+                if (float(i) < stripeBands && offset >= start && offset < start + width) {
+                    line = 1.0;
+                    band = float(i);
+                }
+                start += width + stripeSpacing;
+            }
+
+            float ramp = 0.0;
+            if (stripeColorMode == 1) ramp = band / max(stripeBands - 1.0, 1.0);
+            if (stripeColorMode == 2) ramp = 1.0 - abs(1.0 - 2.0 * fract(stripeIndex / (2.0 * stripeRampLength)));
+            if (stripeColorMode == 3) ramp = normalizedDepth();
+            color = mix(stripeColor, stripeColor2, ramp) * vInstanceTint * (1.0 + pointerGlow());
+            return line;
+        }
+`;
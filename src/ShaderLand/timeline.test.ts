@@ -0,0 +1,179 @@
+import {
+  Keyframe,
+  sampleTrack,
+  TIMELINE_FORMAT,
+  TIMELINE_VERSION,
+  TimelinePlayer,
+  TimelineTarget,
+  TimelineValidationError,
+  validateTimelineFile,
+} from "./timeline";
+
+const targets: TimelineTarget[] = [
+  { key: "speed", label: "Speed", type: "number", min: 0, max: 10 },
+  { key: "tint", label: "Tint", type: "color" },
+  { key: "space", label: "Space", type: "select", options: ["view", "world"] },
+];
+
+describe("sampleTrack", () => {
+  const keyframes: Keyframe[] = [
+    { time: 1, value: 0, easing: "linear" },
+    { time: 3, value: 10, easing: "easeIn" },
+    { time: 5, value: 20, easing: "step" },
+    { time: 7, value: 30, easing: "linear" },
+  ];
+
+  it("holds the nearest keyframe outside the track", () => {
+    expect(sampleTrack(keyframes, "number", 0)).toBe(0);
+    expect(sampleTrack(keyframes, "number", 9)).toBe(30);
+  });
+
+  it("eases numbers between keyframes with the earlier keyframe's curve", () => {
+    expect(sampleTrack(keyframes, "number", 2)).toBe(5);
+    expect(sampleTrack(keyframes, "number", 4)).toBeCloseTo(11.25);
+    expect(sampleTrack(keyframes, "number", 6.9)).toBe(20);
+    expect(sampleTrack(keyframes, "number", 7)).toBe(30);
+  });
+
+  it("blends colors", () => {
+    const colors: Keyframe[] = [
+      { time: 0, value: "#000000", easing: "linear" },
+      { time: 1, value: "#ffffff", easing: "linear" },
+    ];
+
+    expect(sampleTrack(colors, "color", 0)).toBe("#000000");
+    expect(sampleTrack(colors, "color", 1)).toBe("#ffffff");
+  });
+
+  it("holds select values until the next keyframe", () => {
+    const options: Keyframe[] = [
+      { time: 0, value: "view", easing: "linear" },
+      { time: 2, value: "world", easing: "linear" },
+    ];
+
+    expect(sampleTrack(options, "select", 1.9)).toBe("view");
+    expect(sampleTrack(options, "select", 2)).toBe("world");
+  });
+});
+
+function timelineFile(overrides: Record<string, unknown> = {}) {
+  return {
+    format: TIMELINE_FORMAT,
+    version: TIMELINE_VERSION,
+    scene: "torus",
+    duration: 8,
+    loop: true,
+    tracks: [
+      {
+        target: "speed",
+        keyframes: [
+          { time: 0, value: 1, easing: "linear" },
+          { time: 4, value: 3, easing: "easeInOut" },
+        ],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+function validationMessage(data: unknown): string {
+  try {
+    validateTimelineFile(data, "torus", targets);
+  } catch (error) {
+    expect(error).toBeInstanceOf(TimelineValidationError);
+    return (error as Error).message;
+  }
+  throw new Error("Expected the timeline to be rejected");
+}
+
+describe("validateTimelineFile", () => {
+  it("accepts a timeline for the scene's targets", () => {
+    const timeline = validateTimelineFile(timelineFile(), "torus", targets);
+
+    expect(timeline.duration).toBe(8);
+    expect(timeline.tracks[0].keyframes).toHaveLength(2);
+  });
+
+  it("rejects data that isn't a timeline for this scene", () => {
+    expect(validationMessage("timeline")).toBe(
+      "Timeline must be a JSON object.",
+    );
+    expect(
+      validationMessage(timelineFile({ format: "shaderland-preset" })),
+    ).toMatch(/^Not a ShaderLand timeline/);
+    expect(validationMessage(timelineFile({ version: "1" }))).toBe(
+      "Timeline is missing its version number.",
+    );
+    expect(
+      validationMessage(timelineFile({ version: TIMELINE_VERSION + 1 })),
+    ).toMatch(/newer than supported/);
+    expect(validationMessage(timelineFile({ scene: "plasma" }))).toBe(
+      'Timeline is for scene "plasma", not "torus".',
+    );
+  });
+
+  it("reports every problem in one error", () => {
+    const message = validationMessage(
+      timelineFile({
+        duration: 0,
+        loop: "yes",
+        tracks: [
+          { target: "glow", keyframes: [] },
+          {
+            target: "speed",
+            keyframes: [{ time: 0, value: 11, easing: "linear" }],
+          },
+          {
+            target: "tint",
+            keyframes: [{ time: "0", value: "red", easing: "bounce" }],
+          },
+          {
+            target: "space",
+            keyframes: [{ time: 0, value: "screen", easing: "step" }],
+          },
+        ],
+      }),
+    );
+
+    expect(message).toBe(
+      "Invalid timeline: duration must be a positive number; " +
+        "loop must be true or false; " +
+        '"glow" can\'t be animated; ' +
+        '"speed" keyframes must be between 0 and 10; ' +
+        'keyframe times of "tint" must be numbers; ' +
+        'unknown easing "bounce" on "tint"; ' +
+        '"tint" keyframes must be colors like "#ff8800"; ' +
+        '"screen" isn\'t an option of "space".',
+    );
+  });
+});
+
+describe("TimelinePlayer", () => {
+  it("keeps number targets in their range", () => {
+    const modulate = jest.fn();
+    const player = new TimelinePlayer(targets, modulate);
+    player.setTimeline({
+      duration: 4,
+      loop: false,
+      tracks: [
+        {
+          target: "speed",
+          keyframes: [
+            { time: 0, value: -5, easing: "linear" },
+            { time: 4, value: 15, easing: "linear" },
+          ],
+        },
+      ],
+    });
+
+    player.update(0);
+    player.update(2);
+    player.update(4);
+
+    expect(modulate.mock.calls).toEqual([
+      ["speed", 0],
+      ["speed", 5],
+      ["speed", 10],
+    ]);
+  });
+});
@@ -0,0 +1,344 @@
+import * as THREE from "three";
+import { downloadBlob } from "./download";
+
+export const TIMELINE_FORMAT = "shaderland-timeline";
+export const TIMELINE_VERSION = 1;
+
+export type Easing = "linear" | "easeIn" | "easeOut" | "easeInOut" | "step";
+
+/** Easings keyed by their label in the timeline panel */
+export const easings: { [label: string]: Easing } = {
+  Linear: "linear",
+  "Ease In": "easeIn",
+  "Ease Out": "easeOut",
+  "Ease In-Out": "easeInOut",
+  Step: "step",
+};
+
+export interface Keyframe {
+  /** Seconds from the start of the timeline */
+  time: number;
+  value: number | string;
+  /** Curve from this keyframe to the next */
+  easing: Easing;
+}
+
+export interface TimelineTrack {
+  /** Param key, `rotationTarget` or a camera axis such as "camera.z" */
+  target: string;
+  keyframes: Keyframe[];
+}
+
+export interface Timeline {
+  /** Seconds; looping timelines repeat after this long */
+  duration: number;
+  loop: boolean;
+  tracks: TimelineTrack[];
+}
+
+/** Versioned form of a timeline, used for JSON files. */
+export interface TimelineFile extends Timeline {
+  format: typeof TIMELINE_FORMAT;
+  version: number;
+  scene: string;
+}
+
+/** Something a track can animate, and the values it accepts. */
+export interface TimelineTarget {
+  key: string;
+  label: string;
+  type: "number" | "color" | "select";
+  min?: number;
+  max?: number;
+  /** Values a select target accepts */
+  options?: string[];
+}
+
+export class TimelineValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TimelineValidationError";
+  }
+}
+
+const colorPattern = /^#[0-9a-f]{6}$/i;
+
+export function emptyTimeline(): Timeline {
+  return { duration: 10, loop: true, tracks: [] };
+}
+
+export function cloneTimeline(timeline: Timeline): Timeline {
+  return {
+    duration: timeline.duration,
+    loop: timeline.loop,
+    tracks: timeline.tracks.map((track) => ({
+      target: track.target,
+      keyframes: track.keyframes.map((keyframe) => ({ ...keyframe })),
+    })),
+  };
+}
+
+/** Where scene time `time` falls in the timeline, in seconds. */
+export function timelinePosition(timeline: Timeline, time: number): number {
+  if (timeline.duration <= 0) return 0;
+  if (!timeline.loop) return THREE.MathUtils.clamp(time, 0, timeline.duration);
+  return THREE.MathUtils.euclideanModulo(time, timeline.duration);
+}
+
+function ease(easing: Easing, t: number): number {
+  switch (easing) {
+    case "easeIn":
+      return t * t * t;
+    case "easeOut":
+      return 1 - Math.pow(1 - t, 3);
+    case "easeInOut":
+      return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+    case "step":
+      return 0;
+    default:
+      return t;
+  }
+}
+
+const colorA = new THREE.Color();
+const colorB = new THREE.Color();
+
+/**
+ * The value of a track at `position`. Keyframes must be sorted by time;
+ * before the first and after the last the nearest keyframe holds. Selects
+ * hold each value until the next keyframe.
+ */
+export function sampleTrack(
+  keyframes: Keyframe[],
+  type: TimelineTarget["type"],
+  position: number,
+): number | string {
+  const next = keyframes.findIndex((keyframe) => keyframe.time > position);
+  if (next === 0) return keyframes[0].value;
+  if (next === -1) return keyframes[keyframes.length - 1].value;
+
+  const from = keyframes[next - 1];
+  const to = keyframes[next];
+  const t = ease(
+    from.easing,
+    (position - from.time) / Math.max(to.time - from.time, 1e-6),
+  );
+  if (type === "number") {
+    return THREE.MathUtils.lerp(from.value as number, to.value as number, t);
+  }
+  if (type === "color") {
+    colorA.set(from.value as string);
+    colorB.set(to.value as string);
+    return `#${colorA.lerp(colorB, t).getHexString()}`;
+  }
+  return from.value;
+}
+
+/**
+ * Plays a timeline by pushing each track's value through `modulate` at the
+ * given scene time; a null value hands a target back to its own value.
+ */
+export class TimelinePlayer {
+  private timeline: Timeline = emptyTimeline();
+  private targets: TimelineTarget[];
+  private modulate: (target: string, value: number | string | null) => void;
+
+  constructor(
+    targets: TimelineTarget[],
+    modulate: (target: string, value: number | string | null) => void,
+  ) {
+    this.targets = targets;
+    this.modulate = modulate;
+  }
+
+  public getTimeline(): Timeline {
+    return cloneTimeline(this.timeline);
+  }
+
+  /** Replaces the timeline; tracks for unknown targets are dropped. */
+  public setTimeline(timeline: Timeline): void {
+    const next = cloneTimeline(timeline);
+    next.tracks = next.tracks.filter((track) => this.findTarget(track.target));
+    next.tracks.forEach((track) =>
+      track.keyframes.sort((a, b) => a.time - b.time),
+    );
+
+    // Targets that lost their track go back to their own values
+    const animated = new Set(next.tracks.map((track) => track.target));
+    for (const track of this.timeline.tracks) {
+      if (!animated.has(track.target)) this.modulate(track.target, null);
+    }
+    this.timeline = next;
+  }
+
+  public update(time: number): void {
+    const position = timelinePosition(this.timeline, time);
+    for (const track of this.timeline.tracks) {
+      const target = this.findTarget(track.target);
+      if (!target || track.keyframes.length === 0) continue;
+      const value = sampleTrack(track.keyframes, target.type, position);
+      this.modulate(
+        track.target,
+        // Keyframes typed into the panel can leave the target's range
+        typeof value === "number"
+          ? THREE.MathUtils.clamp(
+              value,
+              target.min ?? -Infinity,
+              target.max ?? Infinity,
+            )
+          : value,
+      );
+    }
+  }
+
+  private findTarget(key: string): TimelineTarget | undefined {
+    return this.targets.find((target) => target.key === key);
+  }
+}
+
+export function toTimelineFile(
+  sceneId: string,
+  timeline: Timeline,
+): TimelineFile {
+  return {
+    format: TIMELINE_FORMAT,
+    version: TIMELINE_VERSION,
+    scene: sceneId,
+    ...cloneTimeline(timeline),
+  };
+}
+
+/**
+ * Checks untrusted timeline data against the targets of the scene it will be
+ * played in, reporting every problem in a single error.
+ */
+export function validateTimelineFile(
+  data: unknown,
+  sceneId: string,
+  targets: TimelineTarget[],
+): TimelineFile {
+  if (!isRecord(data)) {
+    throw new TimelineValidationError("Timeline must be a JSON object.");
+  }
+  if (data.format !== TIMELINE_FORMAT) {
+    throw new TimelineValidationError(
+      `Not a ShaderLand timeline (expected "format": "${TIMELINE_FORMAT}").`,
+    );
+  }
+  if (typeof data.version !== "number") {
+    throw new TimelineValidationError(
+      "Timeline is missing its version number.",
+    );
+  }
+  if (data.version > TIMELINE_VERSION) {
+    throw new TimelineValidationError(
+      `Timeline version ${data.version} is newer than supported version ${TIMELINE_VERSION}.`,
+    );
+  }
+  if (data.scene !== sceneId) {
+    throw new TimelineValidationError(
+      `Timeline is for scene "${String(data.scene)}", not "${sceneId}".`,
+    );
+  }
+
+  const problems: string[] = [];
+  if (
+    typeof data.duration !== "number" ||
+    !Number.isFinite(data.duration) ||
+    data.duration <= 0
+  ) {
+    problems.push("duration must be a positive number");
+  }
+  if (typeof data.loop !== "boolean") {
+    problems.push("loop must be true or false");
+  }
+  if (!Array.isArray(data.tracks)) {
+    problems.push("tracks must be an array");
+  } else {
+    for (const track of data.tracks) {
+      problems.push(...checkTrack(track, targets));
+    }
+  }
+  if (problems.length > 0) {
+    throw new TimelineValidationError(
+      `Invalid timeline: ${problems.join("; ")}.`,
+    );
+  }
+
+  return toTimelineFile(sceneId, data as unknown as Timeline);
+}
+
+export function exportTimeline(sceneId: string, timeline: Timeline): void {
+  const json = JSON.stringify(toTimelineFile(sceneId, timeline), null, 2);
+  downloadBlob(
+    new Blob([json], { type: "application/json" }),
+    `${sceneId}-timeline.json`,
+  );
+}
+
+export async function importTimeline(
+  file: File,
+  sceneId: string,
+  targets: TimelineTarget[],
+): Promise<TimelineFile> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new TimelineValidationError(`${file.name} is not valid JSON.`);
+  }
+  return validateTimelineFile(data, sceneId, targets);
+}
+
+function checkTrack(track: unknown, targets: TimelineTarget[]): string[] {
+  if (!isRecord(track)) return ["tracks must be objects"];
+
+  const target = targets.find((candidate) => candidate.key === track.target);
+  if (!target) return [`"${String(track.target)}" can't be animated`];
+  if (!Array.isArray(track.keyframes)) {
+    return [`keyframes of "${target.key}" must be an array`];
+  }
+
+  const problems: string[] = [];
+  for (const keyframe of track.keyframes) {
+    if (!isRecord(keyframe)) {
+      problems.push(`keyframes of "${target.key}" must be objects`);
+      continue;
+    }
+    if (typeof keyframe.time !== "number" || !Number.isFinite(keyframe.time)) {
+      problems.push(`keyframe times of "${target.key}" must be numbers`);
+    }
+    if (!Object.values(easings).includes(keyframe.easing as Easing)) {
+      problems.push(
+        `unknown easing "${String(keyframe.easing)}" on "${target.key}"`,
+      );
+    }
+    const problem = checkValue(target, keyframe.value);
+    if (problem) problems.push(problem);
+  }
+  return problems;
+}
+
+function checkValue(target: TimelineTarget, value: unknown): string | null {
+  if (target.type === "number") {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return `"${target.key}" keyframes must be numbers`;
+    }
+    const { min = -Infinity, max = Infinity } = target;
+    return value >= min && value <= max
+      ? null
+      : `"${target.key}" keyframes must be between ${min} and ${max}`;
+  }
+  if (target.type === "color") {
+    return typeof value === "string" && colorPattern.test(value)
+      ? null
+      : `"${target.key}" keyframes must be colors like "#ff8800"`;
+  }
+  return typeof value === "string" && target.options?.includes(value)
+    ? null
+    : `"${String(value)}" isn't an option of "${target.key}"`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
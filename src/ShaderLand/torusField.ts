@@ -0,0 +1,322 @@
+import * as THREE from "three";
+import { ParamSchema } from "./params";
+import { TorusDimensions } from "./shapes";
+
+export interface TorusFieldParams {
+  fieldLayout: string;
+  fieldCount: number;
+  fieldSpacing: number;
+  fieldDepth: number; // Z of the field's center
+  fieldScale: number; // Of the scene's torus
+  fieldScaleJitter: number;
+  fieldColorJitter: number;
+  fieldSpin: number; // Radians per unit of shader spin time
+  fieldBob: number;
+}
+
+export const torusFieldParamSchema: ParamSchema<TorusFieldParams> = [
+  {
+    key: "fieldLayout",
+    label: "Layout",
+    type: "select",
+    options: {
+      Off: "off",
+      Grid: "grid",
+      Ring: "ring",
+      Spiral: "spiral",
+      "Random Field": "random",
+    },
+    folder: "Torus Field",
+    rebuildsGeometry: true,
+  },
+  {
+    key: "fieldCount",
+    label: "Count",
+    type: "number",
+    min: 1,
+    max: 5000,
+    step: 1,
+    folder: "Torus Field",
+    rebuildsGeometry: true,
+  },
+  {
+    key: "fieldSpacing",
+    label: "Spacing",
+    type: "number",
+    min: 1,
+    max: 20,
+    step: 0.5,
+    folder: "Torus Field",
+    rebuildsGeometry: true,
+  },
+  {
+    key: "fieldDepth",
+    label: "Depth",
+    type: "number",
+    min: -100,
+    max: 20,
+    step: 1,
+    folder: "Torus Field",
+    rebuildsGeometry: true,
+  },
+  {
+    key: "fieldScale",
+    label: "Scale",
+    type: "number",
+    min: 0.02,
+    max: 1,
+    step: 0.01,
+    folder: "Torus Field",
+    rebuildsGeometry: true,
+  },
+  {
+    key: "fieldScaleJitter",
+    label: "Scale Jitter",
+    type: "number",
+    min: 0,
+    max: 1,
+    step: 0.05,
+    folder: "Torus Field",
+    rebuildsGeometry: true,
+  },
+  {
+    key: "fieldColorJitter",
+    label: "Color Jitter",
+    type: "number",
+    min: 0,
+    max: 1,
+    step: 0.05,
+    folder: "Torus Field",
+    rebuildsGeometry: true,
+  },
+  {
+    key: "fieldSpin",
+    label: "Spin",
+    type: "number",
+    min: -4,
+    max: 4,
+    step: 0.1,
+    folder: "Torus Field",
+    uniform: "fieldSpin",
+  },
+  {
+    key: "fieldBob",
+    label: "Bob",
+    type: "number",
+    min: 0,
+    max: 5,
+    step: 0.1,
+    folder: "Torus Field",
+    uniform: "fieldBob",
+  },
+];
+
+/**
+ * Vertex shader declarations for instanced meshes. `instancePosition()`
+ * places a vertex of its instance, spinning it about its own Y axis and
+ * bobbing it, offset by the instance's phase; other meshes pass through.
+ * The motion follows `spinTime`, so it holds still with the shapes' spin in
+ * seamless loops. `instanceTint()` is the instance's color, or white.
+ */
+export const instanceChunk = `
+        uniform float spinTime;
+        uniform float fieldSpin;
+        uniform float fieldBob;
+
+        #ifdef USE_INSTANCING
+        attribute float instancePhase;
+        attribute float instanceScale;
+        #endif
+
+        vec3 instancePosition(vec3 local) {
+        #ifdef USE_INSTANCING
+            float t = spinTime + instancePhase;
+            float angle = t * fieldSpin;
+            vec3 spun = vec3(
+                cos(angle) * local.x + sin(angle) * local.z,
+                local.y,
+                cos(angle) * local.z - sin(angle) * local.x
+            );
+            vec4 placed = instanceMatrix * vec4(spun * instanceScale, 1.0);
+            placed.y += sin(t) * fieldBob;
+            return placed.xyz;
+        #else
+            return local;
+        #endif
+        }
+
+        vec3 instanceTint() {
+        #ifdef USE_INSTANCING_COLOR
+            return instanceColor;
+        #else
+            return vec3(1.0);
+        #endif
+        }
+`;
+
+/** Seed for the layouts' randomness, so rebuilds don't reshuffle the field */
+const layoutSeed = 1;
+
+// Saturation and lightness of the tints colors jitter towards; the hue is
+// random per instance
+const tintSaturation = 0.8;
+const tintLightness = 0.6;
+
+/**
+ * A field of toruses drawn in one call as an `InstancedMesh` with the
+ * scene's stripe material. The CPU only lays the field out; each instance's
+ * spin and bob are computed on the GPU from its phase attribute. The field
+ * sits outside the shape group, so it neither spins with the shapes nor
+ * takes pointer hits.
+ */
+export class TorusField {
+  private parent: THREE.Object3D;
+  private material: THREE.Material;
+  private params: () => TorusFieldParams & TorusDimensions;
+  private mesh: THREE.InstancedMesh | null = null;
+
+  constructor(
+    parent: THREE.Object3D,
+    material: THREE.Material,
+    params: () => TorusFieldParams & TorusDimensions,
+  ) {
+    this.parent = parent;
+    this.material = material;
+    this.params = params;
+  }
+
+  /** Lays the field out again after its params or the torus dimensions change. */
+  public rebuild(): void {
+    this.dispose();
+
+    const params = this.params();
+    if (params.fieldLayout === "off") return;
+
+    const count = Math.max(1, Math.round(params.fieldCount));
+    const geometry = new THREE.TorusGeometry(
+      params.torusRadius,
+      params.tubeRadius,
+      params.radialSegments,
+      params.tubularSegments,
+    );
+    const phases = new Float32Array(count);
+    const scales = new Float32Array(count);
+    const mesh = new THREE.InstancedMesh(geometry, this.material, count);
+    // Bounds come from the CPU transforms, which the GPU animation leaves
+    mesh.frustumCulled = false;
+
+    const random = seededRandom(layoutSeed);
+    const matrix = new THREE.Matrix4();
+    const position = new THREE.Vector3();
+    const rotation = new THREE.Euler();
+    const quaternion = new THREE.Quaternion();
+    const unitScale = new THREE.Vector3(1, 1, 1);
+    const white = new THREE.Color(1, 1, 1);
+    const tint = new THREE.Color();
+    const color = new THREE.Color();
+    for (let index = 0; index < count; index++) {
+      layOut(params, index, count, random, position, rotation);
+      quaternion.setFromEuler(rotation);
+      mesh.setMatrixAt(index, matrix.compose(position, quaternion, unitScale));
+
+      phases[index] = random() * Math.PI * 2;
+      scales[index] =
+        params.fieldScale * (1 + params.fieldScaleJitter * (random() * 2 - 1));
+      tint.setHSL(random(), tintSaturation, tintLightness);
+      mesh.setColorAt(
+        index,
+        color.lerpColors(white, tint, params.fieldColorJitter),
+      );
+    }
+    geometry.setAttribute(
+      "instancePhase",
+      new THREE.InstancedBufferAttribute(phases, 1),
+    );
+    geometry.setAttribute(
+      "instanceScale",
+      new THREE.InstancedBufferAttribute(scales, 1),
+    );
+
+    this.mesh = mesh;
+    this.parent.add(mesh);
+  }
+
+  /** Removes the field and frees its geometry and instance buffers. */
+  public dispose(): void {
+    if (!this.mesh) return;
+
+    this.parent.remove(this.mesh);
+    this.mesh.geometry.dispose();
+    this.mesh.dispose();
+    this.mesh = null;
+  }
+}
+
+/** Writes where instance `index` of `count` sits in the chosen layout. */
+function layOut(
+  params: TorusFieldParams,
+  index: number,
+  count: number,
+  random: () => number,
+  position: THREE.Vector3,
+  rotation: THREE.Euler,
+): void {
+  const spacing = params.fieldSpacing;
+  rotation.set(0, 0, 0);
+
+  switch (params.fieldLayout) {
+    case "grid": {
+      const columns = Math.ceil(Math.sqrt(count));
+      const rows = Math.ceil(count / columns);
+      position.set(
+        ((index % columns) - (columns - 1) / 2) * spacing,
+        (Math.floor(index / columns) - (rows - 1) / 2) * spacing,
+        0,
+      );
+      break;
+    }
+    case "ring": {
+      // Wide enough to keep neighbours `spacing` apart
+      const radius = Math.max((count * spacing) / (Math.PI * 2), spacing);
+      const angle = (index / count) * Math.PI * 2;
+      position.set(Math.cos(angle) * radius, Math.sin(angle) * radius, 0);
+      rotation.set(Math.PI / 2, 0, angle);
+      break;
+    }
+    case "spiral": {
+      // Fermat's spiral at the golden angle packs evenly, like seed heads
+      const radius = spacing * Math.sqrt(index / Math.PI);
+      const angle = index * Math.PI * (3 - Math.sqrt(5));
+      position.set(Math.cos(angle) * radius, Math.sin(angle) * radius, 0);
+      rotation.set(0, 0, angle);
+      break;
+    }
+    default: {
+      // A cube holding about one torus per `spacing`-sided cell
+      const size = spacing * Math.cbrt(count);
+      position.set(
+        (random() - 0.5) * size,
+        (random() - 0.5) * size,
+        (random() - 0.5) * size,
+      );
+      rotation.set(
+        random() * Math.PI * 2,
+        random() * Math.PI * 2,
+        random() * Math.PI * 2,
+      );
+    }
+  }
+  position.z += params.fieldDepth;
+}
+
+/** A small deterministic PRNG (mulberry32) returning values in [0, 1). */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
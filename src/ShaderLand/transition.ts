@@ -0,0 +1,147 @@
+import * as THREE from "three";
+import { ShaderPass } from "three/examples/jsm/postprocessing/ShaderPass";
+import { bayerChunk } from "./ditherPass";
+
+export type TransitionKind = "cut" | "dissolve" | "sweep" | "radial";
+
+/** How one look gives way to the next. */
+export interface Transition {
+  kind: TransitionKind;
+  /** Length of scene transitions and preset blends; cuts ignore it */
+  seconds: number;
+}
+
+/** Transitions keyed by their label in the menu */
+export const transitionKinds: { [label: string]: TransitionKind } = {
+  Cut: "cut",
+  Dissolve: "dissolve",
+  "Stripe Sweep": "sweep",
+  "Radial Reveal": "radial",
+};
+
+export const defaultTransition: Transition = { kind: "dissolve", seconds: 1 };
+
+// Shader modes, in the order of the kinds that draw
+const shaderKinds: TransitionKind[] = ["dissolve", "sweep", "radial"];
+
+const TransitionShader = {
+  uniforms: {
+    tDiffuse: { value: null },
+    tFrom: { value: null },
+    resolution: { value: new THREE.Vector2(1, 1) },
+    mode: { value: 0 },
+    progress: { value: 0 },
+  },
+  vertexShader: `
+    varying vec2 vUv;
+
+    void main() {
+        vUv = uv;
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  fragmentShader: `
+    uniform sampler2D tDiffuse;
+    uniform sampler2D tFrom;
+    uniform vec2 resolution;
+    uniform int mode;
+    uniform float progress;
+
+    varying vec2 vUv;
+
+    ${bayerChunk}
+
+    // Width of the soft edge of sweeps and reveals
+    #define SOFTNESS 0.1
+    #define STRIPE_COUNT 12.0
+    #define DITHER_SCALE 3.0
+
+    // How far the new image has come in at this pixel, 0 to 1
+    float reveal() {
+        if (mode == 0) {
+            // Each pixel flips once progress passes its Bayer threshold
+            return float(progress > bayer8(gl_FragCoord.xy / DITHER_SCALE));
+        }
+
+        float edge = progress * (1.0 + SOFTNESS);
+        if (mode == 1) {
+            // Alternate diagonal stripes sweep in from opposite corners
+            float along = (vUv.x + vUv.y) * 0.5;
+            float stripe = step(0.5, fract((vUv.x - vUv.y) * STRIPE_COUNT));
+            float position = mix(along, 1.0 - along, stripe);
+            return 1.0 - smoothstep(edge - SOFTNESS, edge, position);
+        }
+
+        // A circle growing from the center until it covers the corners
+        vec2 aspect = vec2(resolution.x / resolution.y, 1.0);
+        float radius = length((vUv - 0.5) * aspect) / length(0.5 * aspect);
+        return 1.0 - smoothstep(edge - SOFTNESS, edge, radius);
+    }
+
+    void main() {
+        vec4 from = texture2D(tFrom, vUv);
+        vec4 to = texture2D(tDiffuse, vUv);
+        gl_FragColor = mix(from, to, reveal());
+    }
+  `,
+};
+
+/**
+ * Composites the scene's image over another scene's canvas, revealing it
+ * with `progress`. The other canvas is re-uploaded every frame so it keeps
+ * animating underneath. Disabled when no transition is running.
+ */
+export class TransitionPass extends ShaderPass {
+  private source: THREE.CanvasTexture | null = null;
+
+  constructor() {
+    super(TransitionShader);
+    this.enabled = false;
+  }
+
+  set kind(value: TransitionKind) {
+    this.uniforms.mode.value = Math.max(0, shaderKinds.indexOf(value));
+  }
+
+  set progress(value: number) {
+    this.uniforms.progress.value = value;
+  }
+
+  /** Draws from `canvas`'s current image this frame. */
+  public setSource(canvas: HTMLCanvasElement): void {
+    if (this.source?.image !== canvas) {
+      this.source?.dispose();
+      this.source = new THREE.CanvasTexture(canvas);
+      // The canvas size rarely suits mipmaps, and it's drawn 1:1 anyway
+      this.source.generateMipmaps = false;
+      this.source.minFilter = THREE.LinearFilter;
+      this.uniforms.tFrom.value = this.source;
+    }
+    this.source.needsUpdate = true;
+    this.enabled = true;
+  }
+
+  /** Stops compositing and lets go of the other canvas. */
+  public finish(): void {
+    this.enabled = false;
+    this.source?.dispose();
+    this.source = null;
+    this.uniforms.tFrom.value = null;
+  }
+
+  public render(
+    renderer: THREE.WebGLRenderer,
+    writeBuffer: THREE.WebGLRenderTarget,
+    readBuffer: THREE.WebGLRenderTarget,
+    deltaTime: number,
+    maskActive: boolean,
+  ): void {
+    this.uniforms.resolution.value.set(readBuffer.width, readBuffer.height);
+    super.render(renderer, writeBuffer, readBuffer, deltaTime, maskActive);
+  }
+
+  public dispose(): void {
+    this.finish();
+    super.dispose();
+  }
+}
@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import { Preset } from "./presets";
+import { createRemoteTransports, RemoteControl, RemoteOptions } from "./remote";
+import { ShaderScene } from "./scene";
+
+/**
+ * Opens the remote transports `options` ask for while mounted, and hands
+ * commands to whichever scene is showing. Pass undefined for no remote.
+ */
+export function useRemoteControl(
+  options: RemoteOptions | undefined,
+  scene: ShaderScene | null,
+  sceneId: string,
+  presets: Preset[],
+): void {
+  const [remote, setRemote] = useState<RemoteControl | null>(null);
+  // Compared by value, so inline objects don't reconnect on every render
+  const optionsKey = options ? JSON.stringify(options) : null;
+
+  useEffect(() => {
+    if (!optionsKey) return;
+
+    const remote = new RemoteControl(
+      createRemoteTransports(JSON.parse(optionsKey)),
+    );
+    setRemote(remote);
+    return () => {
+      remote.dispose();
+      setRemote(null);
+    };
+  }, [optionsKey]);
+
+  useEffect(() => {
+    if (!remote || !scene) return;
+
+    remote.attach(scene, sceneId, presets);
+    return () => remote.detach();
+  }, [remote, scene, sceneId, presets]);
+}
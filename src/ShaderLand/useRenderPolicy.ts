@@ -0,0 +1,77 @@
+import { RefObject, useEffect, useState } from "react";
+import {
+  effectiveMotion,
+  lowPowerFps,
+  reducedMotionQuery,
+  RenderPolicy,
+  slowedMotionScale,
+} from "./renderPolicy";
+import { ShaderScene } from "./scene";
+
+/**
+ * Starts and stops `scene` to follow the render policy: paused while the tab
+ * is hidden or the container is scrolled out of view, slowed or frozen for
+ * reduced motion, and throttled in low-power mode. A `paused` scene holds its
+ * current frame, redrawing only to show param and camera changes.
+ */
+export function useRenderPolicy(
+  scene: ShaderScene | null,
+  containerRef: RefObject<HTMLElement | null>,
+  policy: RenderPolicy,
+  paused = false,
+): void {
+  const [documentVisible, setDocumentVisible] = useState(
+    () => document.visibilityState === "visible",
+  );
+  const [onScreen, setOnScreen] = useState(true);
+  const [prefersReducedMotion, setPrefersReducedMotion] = useState(
+    () => window.matchMedia(reducedMotionQuery).matches,
+  );
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      setDocumentVisible(document.visibilityState === "visible");
+    };
+    const query = window.matchMedia(reducedMotionQuery);
+    const handleMotionChange = (event: MediaQueryListEvent) => {
+      setPrefersReducedMotion(event.matches);
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    query.addEventListener("change", handleMotionChange);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      query.removeEventListener("change", handleMotionChange);
+    };
+  }, []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || typeof IntersectionObserver === "undefined") return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      setOnScreen(entry.isIntersecting);
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [containerRef]);
+
+  useEffect(() => {
+    if (!scene) return;
+
+    const motion = effectiveMotion(policy, prefersReducedMotion);
+    scene.clock.motionScale = motion === "slowed" ? slowedMotionScale : 1;
+    scene.governor.maxFps = policy.lowPower ? lowPowerFps : Infinity;
+
+    const hidden = !documentVisible || !onScreen;
+    if (policy.pauseWhenHidden && hidden) {
+      scene.stop();
+    } else if (paused || motion === "still") {
+      // Starting renders a frame straight away; stopping holds it
+      scene.start();
+      scene.stop();
+    } else {
+      scene.start();
+    }
+  }, [scene, policy, paused, documentVisible, onScreen, prefersReducedMotion]);
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from "react";
+import { SharedRenderer } from "./sharedRenderer";
+
+/**
+ * A shared renderer that lives as long as the calling component. It's null
+ * on the first render, so mount the scenes that use it once it's there;
+ * otherwise they start out with contexts of their own.
+ */
+export function useSharedRenderer(): SharedRenderer | null {
+  const [sharedRenderer, setSharedRenderer] = useState<SharedRenderer | null>(
+    null,
+  );
+
+  useEffect(() => {
+    const renderer = new SharedRenderer({ antialias: true });
+    setSharedRenderer(renderer);
+    return () => {
+      renderer.dispose();
+      setSharedRenderer(null);
+    };
+  }, []);
+
+  return sharedRenderer;
+}
@@ -0,0 +1,75 @@
+import { MouseEvent, useEffect } from "react";
+import { ShaderLand } from "../ShaderLand/ShaderLand";
+import { isDebug, matchRoute, siteRoutes } from "./routes";
+import { useLocation } from "./useLocation";
+import "./Site.css";
+
+const siteName = "teebz";
+
+/**
+ * The site: routed pages laid over a ShaderLand background that moves to
+ * each page's scene, preset and camera. The scene's controls, and remote
+ * control from `public/controller.html`, are only on with `?debug`; the
+ * motion and power settings are always offered.
+ */
+export function Site() {
+  const [location, navigate] = useLocation();
+  const route = matchRoute(location.pathname);
+  const debug = isDebug(location.search);
+  // Debug pages also take remote commands, through a relay given as ?relay=
+  const relayUrl = new URLSearchParams(location.search).get("relay");
+  const Page = route.page;
+
+  useEffect(() => {
+    document.title =
+      route.path === "/" ? siteName : `${route.title} · ${siteName}`;
+  }, [route]);
+
+  // Plain clicks stay in the page; modified ones open tabs as usual
+  const handleLinkClick = (event: MouseEvent<HTMLAnchorElement>) => {
+    if (
+      event.button !== 0 ||
+      event.metaKey ||
+      event.ctrlKey ||
+      event.shiftKey ||
+      event.altKey
+    ) {
+      return;
+    }
+    event.preventDefault();
+    navigate(event.currentTarget.pathname);
+  };
+
+  return (
+    <div className={debug ? "site site-debug" : "site"}>
+      <div className="site-background">
+        <ShaderLand
+          sceneId={route.sceneId}
+          preset={route.preset}
+          camera={route.camera}
+          gui={debug}
+          menu={debug}
+          policyMenu
+          remote={debug ? { relayUrl: relayUrl ?? undefined } : undefined}
+        />
+      </div>
+      <header className="site-header">
+        <nav>
+          {siteRoutes.map((candidate) => (
+            <a
+              key={candidate.path}
+              href={candidate.path + location.search}
+              aria-current={candidate === route ? "page" : undefined}
+              onClick={handleLinkClick}
+            >
+              {candidate.title}
+            </a>
+          ))}
+        </nav>
+      </header>
+      <main className="site-page">
+        <Page />
+      </main>
+    </div>
+  );
+}
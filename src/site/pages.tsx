@@ -0,0 +1,75 @@
+import { sceneDefinitions } from "../ShaderLand/registry";
+
+export function HomePage() {
+  return (
+    <section className="site-card">
+      <h1>teebz</h1>
+      <p>Shaders, stripes and other experiments in real-time graphics.</p>
+      <p>
+        The background is live: drag to orbit it, and each page takes it
+        somewhere new.
+      </p>
+    </section>
+  );
+}
+
+export function AboutPage() {
+  return (
+    <section className="site-card">
+      <h1>About</h1>
+      <p>
+        This site is a home for graphics experiments. Everything behind the text
+        is rendered in your browser with WebGL, from stripe patterns on
+        interlocking toruses to ordered dithering and retro upscaling.
+      </p>
+      <p>
+        Add <code>?debug</code> to any address to open the controls behind the
+        current scene.
+      </p>
+    </section>
+  );
+}
+
+export function ProjectsPage() {
+  return (
+    <section className="site-card">
+      <h1>Projects</h1>
+      <h2>ShaderLand</h2>
+      <p>
+        The scenes behind this site: schema-driven shader params with presets, a
+        keyframe timeline, audio-reactive routing, camera paths, transitions and
+        PNG or WebM export. It ships as a React component and a{" "}
+        <code>&lt;shader-land&gt;</code> element for any page.
+      </p>
+      <ul>
+        {sceneDefinitions.map((definition) => (
+          <li key={definition.id}>
+            {definition.name}, with {definition.presets.length} presets
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+export function ContactPage() {
+  return (
+    <section className="site-card">
+      <h1>Contact</h1>
+      <p>
+        Want to talk shaders, or collaborate on something? Get in touch. If a
+        scene looks wrong on your device, mention the browser and GPU so it can
+        be tracked down.
+      </p>
+    </section>
+  );
+}
+
+export function NotFoundPage() {
+  return (
+    <section className="site-card">
+      <h1>Not found</h1>
+      <p>There's nothing at this address.</p>
+    </section>
+  );
+}
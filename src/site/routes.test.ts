@@ -0,0 +1,21 @@
+import { matchRoute, notFoundRoute, siteRoutes } from "./routes";
+
+describe("matchRoute", () => {
+  it("finds the route for each page", () => {
+    for (const route of siteRoutes) {
+      expect(matchRoute(route.path)).toBe(route);
+    }
+  });
+
+  it("ignores trailing slashes", () => {
+    expect(matchRoute("/about/").path).toBe("/about");
+    expect(matchRoute("/projects//").path).toBe("/projects");
+    expect(matchRoute("/").path).toBe("/");
+  });
+
+  it("falls back to the not-found route", () => {
+    expect(matchRoute("/blog")).toBe(notFoundRoute);
+    expect(matchRoute("/about/team")).toBe(notFoundRoute);
+    expect(matchRoute("/About")).toBe(notFoundRoute);
+  });
+});
@@ -0,0 +1,76 @@
+import { ComponentType } from "react";
+import { CameraView } from "../ShaderLand/scene";
+import {
+  AboutPage,
+  ContactPage,
+  HomePage,
+  NotFoundPage,
+  ProjectsPage,
+} from "./pages";
+
+export interface SiteRoute {
+  path: string;
+  /** Nav label and document title */
+  title: string;
+  page: ComponentType;
+  /** Background scene, and the preset and camera it moves to */
+  sceneId: string;
+  preset?: string;
+  camera?: CameraView;
+}
+
+export const siteRoutes: SiteRoute[] = [
+  {
+    path: "/",
+    title: "Home",
+    page: HomePage,
+    sceneId: "bloom-stripes",
+    preset: "Default",
+    camera: { position: [0, 0, 30] },
+  },
+  {
+    path: "/about",
+    title: "About",
+    page: AboutPage,
+    sceneId: "bloom-stripes",
+    preset: "Neon Haze",
+    camera: { position: [20, 8, 18] },
+  },
+  {
+    path: "/projects",
+    title: "Projects",
+    page: ProjectsPage,
+    sceneId: "dither",
+    preset: "Halftone",
+    camera: { position: [-16, -4, 24] },
+  },
+  {
+    path: "/contact",
+    title: "Contact",
+    page: ContactPage,
+    sceneId: "dither",
+    preset: "Soft Fade",
+    camera: { position: [0, 22, 20] },
+  },
+];
+
+/** Shown for any path without a route */
+export const notFoundRoute: SiteRoute = {
+  path: "",
+  title: "Not Found",
+  page: NotFoundPage,
+  sceneId: "dither",
+  preset: "Game Boy",
+  camera: { position: [0, 0, 40] },
+};
+
+export function matchRoute(pathname: string): SiteRoute {
+  // "/about/" is "/about"
+  const path = pathname.replace(/(.)\/+$/, "$1");
+  return siteRoutes.find((route) => route.path === path) ?? notFoundRoute;
+}
+
+/** Whether `?debug` asks for the scene controls. */
+export function isDebug(search: string): boolean {
+  return new URLSearchParams(search).has("debug");
+}
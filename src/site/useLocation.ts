@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from "react";
+
+export interface SiteLocation {
+  pathname: string;
+  search: string;
+}
+
+function currentLocation(): SiteLocation {
+  return {
+    pathname: window.location.pathname,
+    search: window.location.search,
+  };
+}
+
+/**
+ * The page's path and query, following back and forward navigation. The
+ * returned `navigate` pushes a new path, keeping the query so `?debug`
+ * survives moving between pages.
+ */
+export function useLocation(): [SiteLocation, (pathname: string) => void] {
+  const [location, setLocation] = useState(currentLocation);
+
+  useEffect(() => {
+    const handlePopState = () => setLocation(currentLocation());
+
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  const navigate = useCallback((pathname: string) => {
+    if (pathname === window.location.pathname) return;
+    window.history.pushState(null, "", pathname + window.location.search);
+    setLocation(currentLocation());
+  }, []);
+
+  return [location, navigate];
+}
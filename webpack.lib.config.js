@@ -0,0 +1,66 @@
+// Builds ShaderLand as a library, separately from the CRA app:
+//
+//   lib/index.js            ES module for React apps; React stays external
+//   lib/shaderland.js       standalone script that bundles React and
+//                           registers <shader-land>
+//   lib/types/              declarations, emitted by tsconfig.lib.json
+process.env.NODE_ENV = process.env.NODE_ENV || "production";
+process.env.BABEL_ENV = process.env.NODE_ENV;
+
+const path = require("path");
+
+const outputPath = path.resolve(__dirname, "lib");
+
+const shared = {
+  mode: process.env.NODE_ENV,
+  devtool: "source-map",
+  resolve: {
+    extensions: [".ts", ".tsx", ".js"],
+  },
+  module: {
+    rules: [
+      {
+        test: /\.(ts|tsx)$/,
+        include: path.resolve(__dirname, "src"),
+        loader: "babel-loader",
+        options: {
+          presets: [["babel-preset-react-app", { runtime: "automatic" }]],
+          babelrc: false,
+          configFile: false,
+        },
+      },
+      {
+        // Injected on load, so embedding pages need no stylesheet
+        test: /\.css$/,
+        use: ["style-loader", "css-loader"],
+      },
+    ],
+  },
+  performance: { hints: false },
+};
+
+module.exports = [
+  {
+    ...shared,
+    name: "module",
+    entry: "./src/ShaderLand/index.ts",
+    experiments: { outputModule: true },
+    externals: ["react", "react-dom", "react-dom/client", "react/jsx-runtime"],
+    externalsType: "module",
+    output: {
+      path: outputPath,
+      filename: "index.js",
+      library: { type: "module" },
+    },
+  },
+  {
+    ...shared,
+    name: "standalone",
+    entry: "./src/ShaderLand/embed.ts",
+    output: {
+      path: outputPath,
+      filename: "shaderland.js",
+      library: { name: "ShaderLand", type: "umd" },
+    },
+  },
+];